@@ -0,0 +1,2 @@
+// the custom UI server is written in TypeScript and compiled with the plugin
+require('../dist/homebridge-ui/server');
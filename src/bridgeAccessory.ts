@@ -0,0 +1,116 @@
+import {PlatformAccessory, Service, WithUUID} from 'homebridge';
+
+import {HomebridgeTedeePlatform} from './platform';
+import {BridgeDetails} from './clients/models/bridge-details';
+
+/**
+ * Bridge Accessory
+ * An instance of this class is created for the tedee bridge if it is exposed to HomeKit.
+ * It exposes whether the bridge is reachable and whether it is connected to the tedee cloud as sensors.
+ */
+export class BridgeAccessory {
+  private reachableSensor: Service;
+  private cloudSensor: Service;
+  private readonly name: string;
+
+  private state = {
+    isReachable: true,
+    isConnected: false,
+  };
+
+  constructor(
+    private readonly platform: HomebridgeTedeePlatform,
+    readonly accessory: PlatformAccessory,
+  ) {
+    const bridge: BridgeDetails = this.accessory.context.bridge;
+    this.name = bridge.name;
+
+    // set accessory information
+    this.accessory.getService(this.platform.Service.AccessoryInformation)!
+      .setCharacteristic(this.platform.Characteristic.Manufacturer, 'tedee')
+      .setCharacteristic(this.platform.Characteristic.Model, 'Bridge')
+      .setCharacteristic(this.platform.Characteristic.SerialNumber, bridge.serialNumber)
+      .setCharacteristic(this.platform.Characteristic.FirmwareRevision, bridge.version)
+      .setCharacteristic(this.platform.Characteristic.SoftwareRevision, bridge.wifiVersion);
+
+    this.state.isConnected = bridge.isConnected === 1;
+
+    this.reachableSensor = this.getSensor('reachable', `${this.name} Reachable`, () => this.state.isReachable);
+    this.cloudSensor = this.getSensor('cloud', `${this.name} Cloud`, () => this.state.isReachable && this.state.isConnected);
+  }
+
+  /**
+   * Gets the sensor service with the given subtype, using the configured sensor type.
+   * A sensor of the other type is removed, e.g. after the configuration has changed.
+   */
+  private getSensor(subtype: string, name: string, isActive: () => boolean): Service {
+    const useOccupancy = this.platform.config.bridgeSensorType === 'occupancy';
+    const sensorType: WithUUID<typeof Service> = useOccupancy ? this.platform.Service.OccupancySensor : this.platform.Service.ContactSensor;
+    const otherType: WithUUID<typeof Service> = useOccupancy ? this.platform.Service.ContactSensor : this.platform.Service.OccupancySensor;
+
+    const otherSensor = this.accessory.getServiceById(otherType, subtype);
+    if (otherSensor) {
+      this.accessory.removeService(otherSensor);
+    }
+
+    const sensor = this.accessory.getServiceById(sensorType, subtype) || this.accessory.addService(sensorType, name, subtype);
+    sensor.setCharacteristic(this.platform.Characteristic.Name, name);
+
+    sensor.getCharacteristic(this.getSensorCharacteristic())
+      .onGet(() => this.getSensorValue(isActive()));
+
+    return sensor;
+  }
+
+  private getSensorCharacteristic() {
+    return this.platform.config.bridgeSensorType === 'occupancy' ?
+      this.platform.Characteristic.OccupancyDetected :
+      this.platform.Characteristic.ContactSensorState;
+  }
+
+  private getSensorValue(isActive: boolean) {
+    if (this.platform.config.bridgeSensorType === 'occupancy') {
+      return isActive ?
+        this.platform.Characteristic.OccupancyDetected.OCCUPANCY_DETECTED :
+        this.platform.Characteristic.OccupancyDetected.OCCUPANCY_NOT_DETECTED;
+    }
+
+    // a closed contact represents a working connection
+    return isActive ?
+      this.platform.Characteristic.ContactSensorState.CONTACT_DETECTED :
+      this.platform.Characteristic.ContactSensorState.CONTACT_NOT_DETECTED;
+  }
+
+  /**
+   * Updates the bridge with the details from the API.
+   * @param bridge
+   */
+  public update(bridge: BridgeDetails) {
+    this.platform.log.debug(`[${this.name}] Update received.`);
+    this.accessory.context.bridge = bridge;
+
+    this.state.isReachable = true;
+    this.updateCloudConnection(bridge.isConnected);
+  }
+
+  public updateReachable(isReachable: boolean) {
+    if (this.state.isReachable !== isReachable) {
+      this.platform.log.info(`[${this.name}] Bridge is ${isReachable ? 'reachable' : 'unreachable'}.`);
+    }
+
+    this.state.isReachable = isReachable;
+    this.updateSensors();
+  }
+
+  public updateCloudConnection(isConnected: 0 | 1) {
+    this.state.isConnected = isConnected === 1;
+    this.updateSensors();
+  }
+
+  private updateSensors() {
+    const isCloudConnected = this.state.isReachable && this.state.isConnected;
+
+    this.reachableSensor.updateCharacteristic(this.getSensorCharacteristic(), this.getSensorValue(this.state.isReachable));
+    this.cloudSensor.updateCharacteristic(this.getSensorCharacteristic(), this.getSensorValue(isCloudConnected));
+  }
+}
@@ -0,0 +1,770 @@
+import {promises as dns} from 'dns';
+
+import {PLATFORM_NAME, PLUGIN_NAME} from './settings';
+import {HomebridgeTedeePlatform} from './platform';
+import {LockAccessory} from './platformAccessory';
+import {BridgeAccessory} from './bridgeAccessory';
+import {BridgeDiscovery, DiscoveredBridge} from './bridgeDiscovery';
+import {TedeeLocalApiClient} from './clients/tedee-local-api-client';
+import {RetryPolicy} from './clients/retry-policy';
+import {CallbackData} from './clients/models/callback-data';
+import {Lock} from './clients/models/lock';
+import {WebhookPayload} from './clients/models/webhook-payload';
+import {BridgeConfiguration} from './configuration/bridge-configuration';
+import {DeviceConfiguration} from './configuration/device-configuration';
+import {diffHistoryState, pickHistoryState} from './storage/event-history';
+import {HistorySource, HistoryState} from './storage/history-entry';
+
+/**
+ * The header that carries the webhook secret.
+ */
+export const WEBHOOK_SECRET_HEADER = 'x-tedee-webhook-secret';
+
+/**
+ * The number of consecutive requests that must fail because the bridge is unreachable before it is discovered again.
+ */
+const REDISCOVERY_THRESHOLD = 3;
+
+/**
+ * The minimum time in milliseconds between two discoveries of an unreachable bridge.
+ */
+const REDISCOVERY_INTERVAL = 5 * 60 * 1000;
+
+/**
+ * Gets a description of the device entry for the log.
+ */
+export function describeDevice(device: DeviceConfiguration): string {
+  const keys = [
+    device.serialNumber ? `serial number ${device.serialNumber}` : undefined,
+    device.id !== undefined ? `ID ${device.id}` : undefined,
+  ].filter(k => k);
+
+  return [device.name || 'without name', ...(keys.length > 0 ? [`(${keys.join(', ')})`] : [])].join(' ');
+}
+
+/**
+ * Gets a description of the locks for the log, so that users can find the keys of their device entries.
+ */
+export function describeLocks(locks: Lock[]): string {
+  return locks.map(l => `${l.name} (serial number ${l.serialNumber}, ID ${l.id})`).join(', ') || 'none';
+}
+
+/**
+ * Bridge Connection
+ * Connects a single bridge: discovers it, registers its locks and its webhook callback, and keeps its locks in sync.
+ */
+export class BridgeConnection {
+  /**
+   * Contains the locks of the bridge that are exposed to HomeKit.
+   */
+  public readonly locks: LockAccessory[] = [];
+
+  /**
+   * Contains the bridge accessory, if the bridge is exposed to HomeKit.
+   */
+  public bridgeAccessory: BridgeAccessory | undefined;
+
+  /**
+   * Gets the serial number of the bridge, once it is discovered.
+   */
+  public serialNumber: string | undefined;
+
+  /**
+   * Gets the resolved IP address of the bridge that webhook requests are compared to.
+   */
+  public bridgeAddress: string | undefined;
+
+  /**
+   * Contains all locks of the bridge, including the ignored ones.
+   */
+  public availableLocks: Lock[] = [];
+
+  /**
+   * Contains the device entries of the configuration that matched a lock of the bridge.
+   */
+  public readonly matchedDevices = new Set<DeviceConfiguration>();
+
+  public name: string;
+  private _client: TedeeLocalApiClient | undefined;
+  private callbackId: number | undefined;
+  private webhookUrl: string | undefined;
+  private callbackVerificationInterval: NodeJS.Timeout | undefined;
+  private pollingTimeout: NodeJS.Timeout | undefined;
+  private lastWebhookReceived = 0;
+  private webhookReceived = false;
+  private webhookWarningLogged = false;
+  private isRediscovering = false;
+  private lastRediscovery = 0;
+
+  constructor(
+    private readonly platform: HomebridgeTedeePlatform,
+    private readonly configuration: BridgeConfiguration,
+  ) {
+    this.name = configuration.name || configuration.bridgeIp || configuration.bridgeSerialNumber || 'Bridge';
+  }
+
+  /**
+   * Gets the client that is used to communicate with the bridge via HTTP API.
+   */
+  public get client(): TedeeLocalApiClient {
+    if (!this._client) {
+      throw new Error(`Bridge ${this.name} not connected yet.`);
+    }
+
+    return this._client;
+  }
+
+  /**
+   * Gets the path under which the webhook server receives the requests of this bridge.
+   */
+  public get webhookPath(): string {
+    return `/bridges/${encodeURIComponent(this.serialNumber || '')}`;
+  }
+
+  /**
+   * Discovers and connects the bridge, and registers its accessories.
+   * @returns the UUIDs of the accessories of this bridge, or undefined if the bridge could not be set up
+   */
+  async start(): Promise<string[] | undefined> {
+    let discovered: DiscoveredBridge;
+    try {
+      discovered = await this.discover(this.configuration.bridgeSerialNumber);
+    } catch (e) {
+      this.platform.log.warn(`[${this.name}] Failed to discover bridge!`);
+      return undefined;
+    }
+
+    if (this.platform.bridges.some(b => b !== this && b.serialNumber === discovered.bridge.serialNumber)) {
+      this.platform.log.error(`[${this.name}] Bridge ${discovered.bridge.serialNumber} is already used by another configured bridge, ` +
+        'please set bridgeSerialNumber or bridgeIp for each bridge.');
+      return undefined;
+    }
+
+    this.serialNumber = discovered.bridge.serialNumber;
+    this.connect(discovered.address);
+    this.saveAddress(discovered.bridge.serialNumber, discovered.address);
+
+    let locks: Lock[];
+    try {
+      const bridge = await this.client.connect();
+      this.name = this.configuration.name || bridge.name;
+      this.platform.log.info(`[${this.name}] Connected to bridge (firmware ${bridge.version}).`);
+
+      await this.registerBridgeAccessory();
+      locks = await this.client.getLockList();
+    } catch (e) {
+      this.platform.log.error(`[${this.name}] Failed to get locks from the API`);
+      this.platform.log.debug(String(e));
+      return undefined;
+    }
+
+    this.platform.log.debug(`[${this.name}] Found ${locks.length} locks.`);
+    this.platform.log.debug(`[${this.name}] Locks: ${JSON.stringify(locks)}`);
+
+    this.availableLocks = locks;
+    const uuids = this.registerLocks(locks);
+    this.checkDeviceConfigurations();
+    if (this.bridgeAccessory) {
+      uuids.push(this.bridgeAccessory.accessory.UUID);
+    }
+
+    if (this.locks.length > 0) {
+      this.schedulePolling();
+      this.registerWebhook().catch(e => {
+        this.platform.log.error(`[${this.name}] Failed to set up the webhook, the locks are only polled.`);
+        this.platform.log.debug(String(e));
+      });
+    }
+
+    return uuids;
+  }
+
+  private discover(serialNumber: string | undefined): Promise<DiscoveredBridge> {
+    this.platform.log.info(`[${this.name}] Discovering tedee bridge...`);
+
+    // the configured address always takes priority over the cached ones
+    const cachedAddresses = this.platform.storage.get('bridgeAddresses') || {};
+    const candidates = serialNumber ?
+      [this.configuration.bridgeIp, cachedAddresses[serialNumber]] :
+      [this.configuration.bridgeIp, ...Object.values(cachedAddresses)];
+
+    const discovery = new BridgeDiscovery(this.platform.log, {
+      apiKey: this.configuration.apiKey,
+      timeout: this.platform.config.timeout,
+      serialNumber: serialNumber,
+      subnets: this.platform.config.discoverySubnets,
+      concurrency: this.platform.config.discoveryConcurrency,
+    });
+
+    return discovery.discover([...new Set(candidates.filter((c): c is string => !!c))])
+      .catch(error => {
+        this.platform.log.warn(`[${this.name}] Failed to discover bridge. For more information see the README.`);
+        this.platform.log.debug(String(error));
+        throw error;
+      });
+  }
+
+  private connect(ip: string) {
+    this._client = new TedeeLocalApiClient(
+      ip,
+      this.configuration.apiKey,
+      this.platform.config.timeout,
+      new RetryPolicy({
+        maxRetries: this.platform.config.maximumApiRetry,
+        retryOperations: this.platform.config.retryOperations,
+      }),
+      this.configuration.authMode,
+      (e) => this.platform.log.error(`[${this.name}] ${e}`),
+      (d) => this.platform.log.debug(`[${this.name}] ${d}`),
+    );
+
+    this.platform.log.debug(`[${this.name}] Initialized API client with IP ${ip}`);
+
+    this._client.onUnreachable = failures => {
+      if (failures >= REDISCOVERY_THRESHOLD) {
+        this.rediscover();
+      }
+    };
+
+    this.resolveAddress(ip);
+  }
+
+  /**
+   * Resolves the address of the bridge that webhook requests are routed by and, if enabled, restricted to.
+   */
+  private resolveAddress(ip: string) {
+    // the address may be a host name, the webhook requests are compared to the resolved address
+    dns.lookup(ip.replace(/:\d+$/, ''), {family: 4})
+      .then(result => {
+        this.bridgeAddress = result.address;
+      })
+      .catch(e => {
+        if (this.platform.config.restrictWebhookToBridge) {
+          this.platform.log.warn(`[${this.name}] Failed to resolve bridge address ${ip}, webhook requests will be rejected`);
+        }
+        this.platform.log.debug(JSON.stringify(e));
+      });
+  }
+
+  /**
+   * Discovers the bridge again after it became unreachable, e.g. because it got a new IP address.
+   * The client keeps working with the new address, the webhook callback is registered again and the locks are synced.
+   */
+  private async rediscover() {
+    if (this.isRediscovering || Date.now() - this.lastRediscovery < REDISCOVERY_INTERVAL) {
+      return;
+    }
+
+    this.isRediscovering = true;
+    this.lastRediscovery = Date.now();
+    this.platform.log.warn(`[${this.name}] Bridge at ${this.client.ip} is unreachable, discovering it again...`);
+
+    try {
+      const discovered = await this.discover(this.serialNumber);
+      if (discovered.address !== this.client.ip) {
+        this.platform.log.info(`[${this.name}] Bridge moved from ${this.client.ip} to ${discovered.address}`);
+        this.client.setIp(discovered.address);
+        this.resolveAddress(discovered.address);
+        this.saveAddress(discovered.bridge.serialNumber, discovered.address);
+      }
+
+      if (this.webhookUrl) {
+        await this.registerCallback();
+      }
+
+      await this.poll();
+      this.platform.log.info(`[${this.name}] Reconnected to bridge`);
+    } catch (e) {
+      this.platform.log.warn(`[${this.name}] Failed to reconnect to bridge, trying again later`);
+      this.platform.log.debug(String(e));
+    } finally {
+      this.isRediscovering = false;
+    }
+  }
+
+  /**
+   * Remembers the address of the bridge, so the next discovery tries it first.
+   */
+  private saveAddress(serialNumber: string, address: string) {
+    const addresses = this.platform.storage.get('bridgeAddresses') || {};
+    if (addresses[serialNumber] === address) {
+      return;
+    }
+
+    this.platform.storage.set('bridgeAddresses', {...addresses, [serialNumber]: address});
+    this.platform.log.debug(`[${this.name}] Saved address ${address} of bridge ${serialNumber}`);
+  }
+
+  /**
+   * Registers the bridge as an accessory, if it should be exposed to HomeKit.
+   */
+  private async registerBridgeAccessory() {
+    if (!this.platform.config.bridgeAccessory) {
+      return;
+    }
+
+    const bridge = await this.client.getBridgeDetails();
+    const uuid = this.platform.api.hap.uuid.generate(bridge.serialNumber);
+    const existingAccessory = this.platform.accessories.find(accessory => accessory.UUID === uuid);
+
+    if (existingAccessory) {
+      this.platform.log.info('Restoring existing accessory from cache:', existingAccessory.displayName);
+      existingAccessory.context.bridge = bridge;
+      this.platform.api.updatePlatformAccessories([existingAccessory]);
+
+      this.bridgeAccessory = new BridgeAccessory(this.platform, existingAccessory);
+    } else {
+      this.platform.log.info('Adding new accessory:', bridge.name);
+      const accessory = new this.platform.api.platformAccessory(bridge.name, uuid);
+      accessory.context.bridge = bridge;
+
+      this.bridgeAccessory = new BridgeAccessory(this.platform, accessory);
+      this.platform.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+    }
+  }
+
+  /**
+   * Registers the locks of the bridge that are not ignored.
+   * @returns the UUIDs of the registered locks
+   */
+  private registerLocks(locks: Lock[]): string[] {
+    const uuids: string[] = [];
+
+    for (const lock of locks) {
+      const deviceConfiguration = this.getDeviceConfiguration(lock);
+
+      // generate a unique id for the accessory from the serial number of the lock
+      const uuid = this.platform.api.hap.uuid.generate(lock.serialNumber);
+      uuids.push(uuid);
+
+      // see if an accessory with the same uuid has already been registered and restored from
+      // the cached devices we stored in the `configureAccessory` method of the platform
+      const existingAccessory = this.platform.accessories.find(accessory => accessory.UUID === uuid);
+
+      if (existingAccessory) {
+        // remove platform accessories of ignored locks, without creating a handler that would control the lock
+        if (deviceConfiguration.ignored) {
+          this.platform.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [existingAccessory]);
+          this.platform.log.info('Removing existing accessory from cache:', existingAccessory.displayName);
+          continue;
+        }
+
+        // the accessory already exists
+        this.platform.log.info('Restoring existing accessory from cache:', existingAccessory.displayName);
+
+        existingAccessory.context.device = lock;
+        this.platform.api.updatePlatformAccessories([existingAccessory]);
+
+        this.locks.push(new LockAccessory(this.platform, existingAccessory, deviceConfiguration, this.client, this.serialNumber));
+      } else {
+        if (deviceConfiguration.ignored) {
+          continue;
+        }
+
+        // the accessory does not yet exist, so we need to create it
+        this.platform.log.info('Adding new accessory:', lock.name);
+
+        const accessory = new this.platform.api.platformAccessory(lock.name, uuid);
+
+        // store a copy of the device object in the `accessory.context`
+        accessory.context.device = lock;
+
+        const lockAccessory = new LockAccessory(this.platform, accessory, deviceConfiguration, this.client, this.serialNumber);
+
+        // link the accessory to your platform
+        this.platform.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+
+        this.locks.push(lockAccessory);
+      }
+    }
+
+    return uuids;
+  }
+
+  /**
+   * Gets the configuration of the lock. The devices of the bridge take priority over the devices of the platform.
+   */
+  private getDeviceConfiguration(lock: Lock): DeviceConfiguration {
+    const deviceConfiguration = this.findDeviceConfiguration(lock);
+    if (deviceConfiguration) {
+      this.matchedDevices.add(deviceConfiguration);
+    }
+
+    // the configured values are applied on top of the defaults, so partial device entries still work
+    return {
+      name: lock.name,
+      unlatchFromUnlockedToUnlocked: true,
+      unlatchLock: false,
+      disableUnlock: false,
+      defaultLockName: lock.name,
+      defaultLatchName: lock.name + ' Latch',
+      settingSwitches: [],
+      postponedLockSwitch: false,
+      postponedLockDelay: 30,
+      eveHistory: false,
+      lowBatteryThreshold: this.platform.config.lowBatteryThreshold,
+      leftUnlockedSensor: 'none',
+      leftUnlockedDelay: 10,
+      jammedSensor: 'none',
+      autoRelock: false,
+      autoRelockDelay: 60,
+      autoRelockPauseSwitch: false,
+      ...deviceConfiguration,
+      // a legacy ignore wins, as the config UI may have written ignored = false next to it
+      ignored: deviceConfiguration?.ignore === true || (deviceConfiguration?.ignored ?? false),
+    };
+  }
+
+  /**
+   * Finds the device entry of the lock by its serial number or ID, and by its name if neither is configured.
+   */
+  private findDeviceConfiguration(lock: Lock): DeviceConfiguration | undefined {
+    const devices: DeviceConfiguration[] = [...(this.configuration.devices || []), ...(this.platform.config.devices || [])];
+
+    const device = devices.find(d => d.serialNumber === lock.serialNumber) || devices.find(d => d.id === lock.id);
+    if (device) {
+      if (device.serialNumber && device.id !== undefined && (device.serialNumber !== lock.serialNumber || device.id !== lock.id)) {
+        this.platform.log.warn(`[${this.name}] Device entry ${describeDevice(device)} does not match lock ${lock.name} ` +
+          `(serial number ${lock.serialNumber}, ID ${lock.id}), please correct serial number and ID.`);
+      }
+
+      return device;
+    }
+
+    // entries with a serial number or ID belong to another lock, e.g. one of the same name on another bridge
+    const namedDevice = devices.find(d => !d.serialNumber && d.id === undefined && d.name === lock.name);
+    if (namedDevice) {
+      this.platform.log.debug(`[${this.name}] Device entry ${lock.name} is matched by name, ` +
+        `set its serial number ${lock.serialNumber} to keep it when the lock is renamed.`);
+    }
+
+    return namedDevice;
+  }
+
+  /**
+   * Logs a warning for each device entry of this bridge that does not match any of its locks.
+   */
+  private checkDeviceConfigurations() {
+    for (const device of this.configuration.devices || []) {
+      if (!this.matchedDevices.has(device)) {
+        this.platform.log.warn(`[${this.name}] Device entry ${describeDevice(device)} does not match any lock of the bridge. ` +
+          `Available locks: ${describeLocks(this.availableLocks)}`);
+      }
+    }
+  }
+
+  /**
+   * Registers the webhook callback on the bridge and verifies it periodically, unless only polling is used.
+   */
+  private async registerWebhook() {
+    const webhookUrl = await this.platform.startWebhookServer();
+    if (!webhookUrl) {
+      return;
+    }
+
+    this.platform.log.info(`[${this.name}] Registering webhook callback...`);
+    this.webhookUrl = webhookUrl + this.webhookPath;
+    this.platform.log.debug(`[${this.name}] Webhook URL: ${this.webhookUrl}`);
+
+    this.registerCallback()
+      .then(() => {
+        this.platform.log.info(`[${this.name}] Webhook callback registered successfully!`);
+        this.lastWebhookReceived = Date.now();
+      })
+      .catch(e => {
+        this.platform.log.error(`[${this.name}] Failed to register webhook callback`);
+        this.platform.log.debug(String(e));
+      })
+      .finally(() => {
+        this.callbackVerificationInterval = setInterval(
+          () => this.verifyCallback(),
+          this.platform.config.callbackVerificationInterval * 1000,
+        );
+      });
+  }
+
+  /**
+   * Adds the webhook callback to the bridge, or updates it if it is already registered.
+   * Callbacks of other systems are left untouched.
+   * @returns true if the callback had to be added or updated, false if it was already registered.
+   */
+  private async registerCallback(): Promise<boolean> {
+    const callbackData: CallbackData = {
+      url: this.webhookUrl!,
+      method: 'POST',
+      headers: [{[WEBHOOK_SECRET_HEADER]: this.platform.webhookSecret}],
+    };
+
+    const callbacks = await this.client.listCallbacks();
+    this.platform.log.debug(`[${this.name}] Registered callbacks: ${JSON.stringify(callbacks)}`);
+
+    // the own callback is matched by its ID or secret first, so a changed webhook URL replaces the previous one
+    const existingCallback = callbacks.find(c => c.id === this.callbackId) ||
+      callbacks.find(c => JSON.stringify(c.headers) === JSON.stringify(callbackData.headers)) ||
+      callbacks.find(c => c.url === callbackData.url);
+    if (!existingCallback) {
+      const callback = await this.client.addCallback(callbackData);
+      this.callbackId = callback.id;
+      this.platform.log.debug(`[${this.name}] Callback ID: ${this.callbackId}`);
+      return true;
+    }
+
+    this.callbackId = existingCallback.id;
+    if (existingCallback.url !== callbackData.url ||
+      existingCallback.method !== callbackData.method ||
+      JSON.stringify(existingCallback.headers) !== JSON.stringify(callbackData.headers)) {
+      await this.client.updateCallback(existingCallback.id, callbackData);
+      this.platform.log.debug(`[${this.name}] Updated callback with ID ${this.callbackId}`);
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Verifies that the webhook callback is still registered on the bridge, e.g. after a reboot of the bridge,
+   * and registers it again if needed.
+   */
+  private verifyCallback() {
+    this.platform.log.debug(`[${this.name}] Verifying webhook callback...`);
+    this.registerCallback()
+      .then(changed => {
+        if (changed) {
+          this.platform.log.info(`[${this.name}] Webhook callback was missing on the bridge and has been registered again.`);
+        }
+      })
+      .catch(e => {
+        this.platform.log.warn(`[${this.name}] Failed to verify webhook callback`);
+        this.platform.log.debug(String(e));
+      });
+  }
+
+  /**
+   * Schedules the next poll of the locks. While webhooks are received, the locks are polled less frequently.
+   */
+  private schedulePolling() {
+    const webhookSilence = Date.now() - this.lastWebhookReceived;
+    const interval = webhookSilence < this.platform.config.webhookSilenceTimeout * 1000 ?
+      this.platform.config.pollingInterval :
+      this.platform.config.fastPollingInterval;
+
+    this.platform.log.debug(`[${this.name}] Polling locks again in ${interval} seconds.`);
+    this.pollingTimeout = setTimeout(() => {
+      this.poll().finally(() => this.schedulePolling());
+    }, interval * 1000);
+  }
+
+  private async poll() {
+    await Promise.all([this.pollLocks(), this.pollBridge()]);
+  }
+
+  /**
+   * Gets the state of all locks from the API and updates the locks.
+   */
+  private async pollLocks() {
+    try {
+      const locks = await this.client.getLockList();
+      for (const lock of locks) {
+        const lockAccessory = this.findLock(lock.id);
+        if (lockAccessory) {
+          if (lock.state !== lockAccessory.accessory.context.device.state) {
+            this.checkWebhookDelivery();
+          }
+
+          const change = diffHistoryState(lockAccessory.getHistoryState(), {
+            state: lock.state,
+            jammed: lock.jammed,
+            batteryLevel: lock.batteryLevel,
+            isCharging: lock.isCharging,
+            isConnected: lock.isConnected,
+          });
+          if (change) {
+            this.recordHistory('poll', 'state-changed', lockAccessory, ...change);
+          }
+
+          lockAccessory.update(lock);
+        }
+      }
+    } catch (e) {
+      this.platform.log.warn(`[${this.name}] Failed to poll locks from the API`);
+      this.platform.log.debug(String(e));
+    }
+  }
+
+  /**
+   * Gets the bridge details from the API and updates the bridge accessory.
+   */
+  private async pollBridge() {
+    if (!this.bridgeAccessory) {
+      return;
+    }
+
+    try {
+      const bridge = await this.client.getBridgeDetails();
+      this.bridgeAccessory.update(bridge);
+    } catch (e) {
+      this.platform.log.warn(`[${this.name}] Failed to poll bridge details from the API`);
+      this.platform.log.debug(String(e));
+      this.bridgeAccessory.updateReachable(false);
+    }
+  }
+
+  /**
+   * Logs a diagnostic once, if polling detected a change although the bridge has not sent any webhook yet.
+   */
+  private checkWebhookDelivery() {
+    if (!this.callbackId || this.webhookReceived || this.webhookWarningLogged) {
+      return;
+    }
+
+    this.webhookWarningLogged = true;
+    this.platform.log.warn(`[${this.name}] A lock changed its state, but the bridge has not sent any webhook to ${this.webhookUrl} yet. ` +
+      'Make sure the bridge can reach this URL, see the Webhooks section of the README.');
+  }
+
+  /**
+   * Records an event of the lock in the event history.
+   */
+  private recordHistory(source: HistorySource, event: string, lock: LockAccessory, before?: HistoryState, after?: HistoryState) {
+    this.platform.history.record({
+      source,
+      event,
+      bridge: this.serialNumber,
+      deviceId: lock.accessory.context.device.id,
+      deviceName: lock.accessory.context.device.name,
+      serialNumber: lock.accessory.context.device.serialNumber,
+      before,
+      after,
+    });
+  }
+
+  /**
+   * Gets the state of the lock that the webhook event reports.
+   */
+  private getWebhookState(payload: WebhookPayload): HistoryState {
+    switch (payload.event) {
+      case 'device-connection-changed':
+        return {isConnected: payload.data.isConnected};
+      case 'device-battery-fully-charged':
+        return {batteryLevel: 100, isCharging: 0};
+      case 'device-battery-start-charging':
+        return {isCharging: 1};
+      case 'device-battery-stop-charging':
+        return {isCharging: 0};
+      case 'device-battery-level-changed':
+        return {batteryLevel: payload.data.batteryLevel};
+      case 'lock-status-changed':
+        return {state: payload.data.state, jammed: payload.data.jammed};
+      default:
+        return {};
+    }
+  }
+
+  private findLock(deviceId: number): LockAccessory | undefined {
+    return this.locks.find(lock => lock.accessory.context.device.id === deviceId);
+  }
+
+  /**
+   * Applies the event of a webhook request of this bridge.
+   * @returns the HTTP status code and message of the response
+   */
+  async handleWebhookEvent(payload: WebhookPayload): Promise<[number, string]> {
+    this.lastWebhookReceived = Date.now();
+    this.webhookReceived = true;
+    if (this.bridgeAccessory) {
+      this.bridgeAccessory.updateReachable(true);
+    }
+
+    if (payload.event === 'backend-connection-changed') {
+      this.platform.history.record({
+        source: 'webhook',
+        event: payload.event,
+        bridge: this.serialNumber,
+        after: {isConnected: payload.data.isConnected},
+      });
+
+      this.platform.log.info(`[${this.name}] Webhook: Backend ${payload.data.isConnected ? 'connected' : 'disconnected'}`);
+      if (this.bridgeAccessory) {
+        this.bridgeAccessory.updateCloudConnection(payload.data.isConnected);
+      }
+      return [200, 'Nevermind ;)'];
+    }
+
+    const deviceId = payload.data.deviceId;
+
+    // Identify the lock that needs to be updated
+    const lock = this.findLock(deviceId);
+    if (!lock) {
+      this.platform.log.warn(`[${this.name}] Webhook: Device not found with id ${deviceId}`);
+      return [404, 'Lock not found'];
+    }
+
+    const after = this.getWebhookState(payload);
+    this.recordHistory('webhook', payload.event, lock, pickHistoryState(lock.getHistoryState(), after), after);
+
+    switch (payload.event) {
+      case 'device-connection-changed':
+        this.platform.log.info(
+          `[${this.name}] Webhook: Device with id ${deviceId} ${payload.data.isConnected ? 'connected' : 'disconnected'}`,
+        );
+        lock.updateConnection(payload.data.isConnected);
+        if (payload.data.isConnected) {
+          // the state may have changed while the lock was disconnected
+          await lock.updateAsync();
+        }
+        break;
+      case 'device-settings-changed':
+        this.platform.log.info(`[${this.name}] Webhook: Device settings changed for device with id ${deviceId}`);
+        await lock.updateAsync();
+        break;
+      case 'device-battery-fully-charged':
+        this.platform.log.info(`[${this.name}] Webhook: Battery fully charged for device with id ${deviceId}`);
+        lock.updateBattery(100);
+        lock.updateCharging(0);
+        break;
+      case 'device-battery-start-charging':
+        this.platform.log.info(`[${this.name}] Webhook: Battery started charging for device with id ${deviceId}`);
+        lock.updateCharging(1);
+        break;
+      case 'device-battery-stop-charging':
+        this.platform.log.info(`[${this.name}] Webhook: Battery stopped charging for device with id ${deviceId}`);
+        lock.updateCharging(0);
+        break;
+      case 'device-battery-level-changed':
+        this.platform.log.info(`[${this.name}] Webhook: Battery level changed for device with id ${deviceId}`);
+        lock.updateBattery(payload.data.batteryLevel);
+        break;
+      case 'lock-status-changed':
+        this.platform.log.info(`[${this.name}] Webhook: Lock status changed for device with id ${deviceId}`);
+        lock.updateState(payload.data.state, payload.data.jammed);
+        break;
+    }
+
+    return [200, 'Lock updated successfully'];
+  }
+
+  /**
+   * Stops polling and removes the webhook callback from the bridge.
+   */
+  shutdown() {
+    if (this.pollingTimeout) {
+      clearTimeout(this.pollingTimeout);
+    }
+
+    if (this.callbackVerificationInterval) {
+      clearInterval(this.callbackVerificationInterval);
+    }
+
+    if (this.callbackId) {
+      this.platform.log.info(`[${this.name}] Deleting webhook callback...`);
+      this.client.deleteCallback(this.callbackId)
+        .then(() => {
+          this.platform.log.debug(`[${this.name}] Webhook callback deleted successfully!`);
+        })
+        .catch(e => {
+          this.platform.log.error(`[${this.name}] Failed to delete webhook callback`);
+          this.platform.log.debug(String(e));
+        });
+    }
+  }
+}
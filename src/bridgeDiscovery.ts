@@ -0,0 +1,293 @@
+import {Logger} from 'homebridge';
+import os from 'os';
+import Evilscan from 'evilscan';
+import makeMdns from 'multicast-dns';
+import {TedeeLocalApiClient} from './clients/tedee-local-api-client';
+import {RetryPolicy} from './clients/retry-policy';
+import {TedeeAuthenticationError} from './clients/errors';
+import {BridgeDetails} from './clients/models/bridge-details';
+
+/**
+ * The DNS-SD service type under which the bridge advertises its HTTP API.
+ */
+const MDNS_SERVICE = '_http._tcp.local';
+
+/**
+ * The time in milliseconds to wait for mDNS responses.
+ */
+const MDNS_TIMEOUT = 3000;
+
+/**
+ * The host names the bridge registers in the local network.
+ */
+const BRIDGE_HOSTNAMES = ['tedee-bridge.local', 'tedee-bridge'];
+
+/**
+ * Represents a bridge that was found in the network.
+ */
+export interface DiscoveredBridge {
+  address: string;
+  bridge: BridgeDetails;
+}
+
+/**
+ * Represents the options of the bridge discovery.
+ */
+export interface BridgeDiscoveryOptions {
+  apiKey: string;
+  timeout: number;
+
+  /**
+   * Gets or sets the serial number of the bridge. If not set, the first bridge that accepts the API key is used.
+   */
+  serialNumber?: string;
+
+  /**
+   * Gets or sets the subnets in CIDR notation that are scanned. If not set, the subnets of all network interfaces are scanned.
+   */
+  subnets?: string[];
+
+  /**
+   * Gets or sets the maximum number of hosts that are probed at the same time.
+   */
+  concurrency: number;
+}
+
+/**
+ * Bridge Discovery
+ * Finds the bridge by trying the known addresses first, then mDNS and the host name of the bridge,
+ * and finally scans the local subnets for hosts with an open HTTP port.
+ * Only the encrypted token is sent, and only to known addresses, bridges announced via mDNS, and hosts that answer like a bridge.
+ */
+export class BridgeDiscovery {
+  constructor(
+    private readonly log: Logger,
+    private readonly options: BridgeDiscoveryOptions,
+  ) {
+  }
+
+  /**
+   * Discovers the bridge.
+   * @param candidates the addresses that are probed first, e.g. the configured or cached address
+   */
+  async discover(candidates: string[]): Promise<DiscoveredBridge> {
+    const discovered = await this.probeAll(candidates, 'known address', true) ||
+      await this.probeAll(await this.queryMdns(), 'mDNS', true) ||
+      await this.probeAll(BRIDGE_HOSTNAMES, 'host name', false) ||
+      await this.scan(this.getSubnets());
+
+    if (!discovered) {
+      throw new Error('No bridge found in the network');
+    }
+
+    this.log.info(`Found bridge ${discovered.bridge.name} (${discovered.bridge.serialNumber}) at ${discovered.address}`);
+    return discovered;
+  }
+
+  /**
+   * Probes the addresses one after another and returns the first matching bridge.
+   * @param isTrusted whether the addresses are known to be bridges, otherwise they are identified before the token is sent
+   */
+  private async probeAll(addresses: string[], source: string, isTrusted: boolean): Promise<DiscoveredBridge | undefined> {
+    for (const address of addresses) {
+      this.log.debug(`Probing ${address} (${source})...`);
+      const discovered = await this.probe(address, isTrusted);
+      if (discovered) {
+        return discovered;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Checks whether the host is a bridge that accepts the API key and matches the configured serial number.
+   * @param isTrusted whether the host is known to be a bridge, otherwise it is identified before the token is sent
+   */
+  private async probe(address: string, isTrusted: boolean): Promise<DiscoveredBridge | undefined> {
+    const client = new TedeeLocalApiClient(
+      address,
+      this.options.apiKey,
+      this.options.timeout,
+      new RetryPolicy({maxRetries: 0}),
+      'encrypted',
+      () => undefined,
+      (d) => this.log.debug(d),
+    );
+
+    // the probed host may be any device in the network, so the API key itself is never sent as plain token
+    client.authFallback = false;
+
+    if (!isTrusted && !await client.identify()) {
+      this.log.debug(`No bridge at ${address}.`);
+      return undefined;
+    }
+
+    let bridge: BridgeDetails;
+    try {
+      bridge = await client.connect();
+    } catch (e) {
+      if (e instanceof TedeeAuthenticationError) {
+        this.log.warn(`No bridge or unauthorized response at ${address}, please check the API key if it is the bridge.`);
+      }
+
+      return undefined;
+    }
+
+    if (this.options.serialNumber && bridge.serialNumber !== this.options.serialNumber) {
+      this.log.debug(`Found bridge ${bridge.serialNumber} at ${address}, but looking for ${this.options.serialNumber}.`);
+      return undefined;
+    }
+
+    return {address, bridge};
+  }
+
+  /**
+   * Browses the HTTP services via DNS-SD and returns the addresses of the services that are announced by a bridge.
+   */
+  private queryMdns(): Promise<string[]> {
+    return new Promise(resolve => {
+      const addresses = new Set<string>();
+      const hosts = new Set<string>();
+
+      let mdns: makeMdns.MulticastDNS;
+      try {
+        mdns = makeMdns();
+      } catch (e) {
+        this.log.debug(`mDNS is not available: ${e}`);
+        resolve([]);
+        return;
+      }
+
+      mdns.on('response', response => {
+        const records = [...response.answers, ...response.additionals];
+        for (const record of records) {
+          if (record.type === 'SRV' && /tedee/i.test(record.name)) {
+            hosts.add(record.data.target);
+          }
+        }
+
+        for (const record of records) {
+          if (record.type === 'A' && (hosts.has(record.name) || /tedee/i.test(record.name))) {
+            this.log.debug(`Found ${record.name} at ${record.data} via mDNS`);
+            addresses.add(record.data);
+          }
+        }
+      });
+
+      mdns.on('error', e => {
+        this.log.debug(`mDNS query failed: ${e}`);
+      });
+
+      mdns.query({questions: [{name: MDNS_SERVICE, type: 'PTR'}]});
+
+      setTimeout(() => {
+        mdns.destroy();
+        resolve([...addresses]);
+      }, MDNS_TIMEOUT);
+    });
+  }
+
+  /**
+   * Gets the subnets to scan, either the configured ones or the subnets of all non-internal IPv4 interfaces.
+   */
+  private getSubnets(): string[] {
+    if (this.options.subnets && this.options.subnets.length > 0) {
+      return this.options.subnets;
+    }
+
+    const subnets = new Set<string>();
+    for (const addresses of Object.values(os.networkInterfaces())) {
+      for (const address of addresses || []) {
+        if (address.family === 'IPv4' && !address.internal && address.cidr) {
+          subnets.add(address.cidr);
+        }
+      }
+    }
+
+    if (subnets.size === 0) {
+      this.log.debug('No suitable network interface found.');
+    }
+
+    return [...subnets];
+  }
+
+  /**
+   * Scans the subnets for hosts with an open HTTP port and probes them while the scan is running.
+   * @returns the first matching bridge, or undefined if none was found
+   */
+  private scan(subnets: string[]): Promise<DiscoveredBridge | undefined> {
+    return new Promise(resolve => {
+      const scans: { abort(): void }[] = [];
+      const queue: string[] = [];
+      let scansRunning = subnets.length;
+      let probesRunning = 0;
+      let finished = false;
+
+      const finish = (discovered: DiscoveredBridge | undefined) => {
+        if (finished) {
+          return;
+        }
+
+        finished = true;
+        for (const scan of scans) {
+          scan.abort();
+        }
+        resolve(discovered);
+      };
+
+      const next = () => {
+        while (!finished && probesRunning < this.options.concurrency && queue.length > 0) {
+          const address = queue.shift()!;
+          probesRunning++;
+          this.probe(address, false)
+            .then(discovered => {
+              probesRunning--;
+              if (discovered) {
+                finish(discovered);
+              } else {
+                next();
+              }
+            });
+        }
+
+        if (scansRunning === 0 && probesRunning === 0 && queue.length === 0) {
+          finish(undefined);
+        }
+      };
+
+      for (const subnet of subnets) {
+        this.log.debug(`Scanning ${subnet}...`);
+        const scan = new Evilscan({target: subnet, port: '80', status: 'O'});
+
+        // an invalid subnet or one without hosts never finishes
+        if (!scan.getOptions().ips?.length) {
+          this.log.debug(`Skipping ${subnet}, it contains no hosts to scan.`);
+          scansRunning--;
+          continue;
+        }
+
+        scans.push(scan);
+
+        scan.on('result', (data: { ip: string }) => {
+          this.log.debug(`Found device at ${data.ip}`);
+          queue.push(data.ip);
+          next();
+        });
+
+        scan.on('error', e => {
+          this.log.debug(`Scan of ${subnet} failed: ${JSON.stringify(e)}`);
+        });
+
+        scan.on('done', () => {
+          scansRunning--;
+          next();
+        });
+
+        scan.run();
+      }
+
+      next();
+    });
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Base class of all errors of the Tedee bridge API.
+ */
+export class TedeeApiError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * The bridge rejected the API token, e.g. because of a wrong API key.
+ */
+export class TedeeAuthenticationError extends TedeeApiError {
+  constructor() {
+    super('Authentication with the bridge failed. Please check the API key and the token type (encrypted or plain).', 401);
+  }
+}
+
+/**
+ * The bridge does not know the requested device or callback, e.g. because the lock was removed or paired with another bridge.
+ */
+export class TedeeDeviceNotFoundError extends TedeeApiError {
+  constructor(message = 'The device was not found on the bridge. Please check that the lock is still paired with the bridge.') {
+    super(message, 404);
+  }
+}
+
+/**
+ * The bridge is busy and did not process the request.
+ */
+export class TedeeBridgeBusyError extends TedeeApiError {
+  constructor() {
+    super('The bridge is busy, please try again later.', 409);
+  }
+}
+
+/**
+ * The bridge did not respond in time. The request may have been processed anyway.
+ */
+export class TedeeTimeoutError extends TedeeApiError {
+  constructor() {
+    super('The bridge did not respond in time. Please check the connection of the bridge or increase the timeout.');
+  }
+}
+
+/**
+ * The bridge could not be reached at all.
+ */
+export class TedeeNetworkError extends TedeeApiError {
+  constructor(code: string) {
+    super(`The bridge is unreachable (${code}). Please check the IP address of the bridge and that the local API is enabled.`);
+  }
+}
+
+/**
+ * The bridge responded with a body that does not match the API specification.
+ */
+export class TedeeInvalidResponseError extends TedeeApiError {
+  constructor(path: string, status?: number) {
+    super(`The response of ${path} does not match the API specification. Please check that the bridge firmware is up to date.`, status);
+  }
+}
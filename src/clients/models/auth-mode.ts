@@ -0,0 +1,6 @@
+/**
+ * Type of the API token:
+ *  encrypted - SHA-256 hash of the API key and a timestamp
+ *  plain - the API key itself
+ */
+export type AuthMode = 'encrypted' | 'plain';
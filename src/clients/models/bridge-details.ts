@@ -0,0 +1,20 @@
+/**
+ * Represents the HTTP API model for the bridge details.
+ */
+export interface BridgeDetails {
+  name: string;
+
+  /**
+   * Bridge current date & time in UTC format
+   */
+  currentTime: string;
+  serialNumber: string;
+  ssid: string;
+
+  /**
+   * Connection to the tedee cloud: 0 - disconnected, 1 - connected
+   */
+  isConnected: 0 | 1;
+  version: string;
+  wifiVersion: string;
+}
@@ -0,0 +1,8 @@
+import {CallbackData} from './callback-data';
+
+/**
+ * Represents the HTTP API model for a registered callback (webhook).
+ */
+export interface CallbackDetails extends CallbackData {
+  id: number;
+}
@@ -0,0 +1,8 @@
+/**
+ * Unlock mode:
+ *  0-normal (unlock, with auto pull spring if enabled)
+ *  2-force
+ *  3-without_pull
+ *  4-unlock_or_pull
+ */
+export type UnlockMode = 0 | 2 | 3 | 4;
@@ -5,10 +5,23 @@ import {LockStatusChangedEvent} from './lock-status-changed-event';
 import {CommonDeviceEvent} from './common-device-event';
 
 /**
- * Represents the HTTP API model for a single lock.
+ * Represents the HTTP API model for a single webhook event.
  */
-export interface WebhookPayload {
-  event: 'backend-connection-changed' | 'device-connection-changed' | 'device-settings-changed' | 'lock-status-changed' | 'device-battery-level-changed' | 'device-battery-start-charging' | 'device-battery-stop-charging' | 'device-battery-fully-charged';
-  timestamp: string,
-  data: BackendConnectionChangedEvent | DeviceConnectionChangedEvent | DeviceBatteryLevelChangedEvent | LockStatusChangedEvent | CommonDeviceEvent;
+interface WebhookEvent<TEvent extends string, TData> {
+  event: TEvent;
+  timestamp: string;
+  data: TData;
 }
+
+/**
+ * Represents the HTTP API model for the payload of a webhook request.
+ */
+export type WebhookPayload =
+  WebhookEvent<'backend-connection-changed', BackendConnectionChangedEvent> |
+  WebhookEvent<'device-connection-changed', DeviceConnectionChangedEvent> |
+  WebhookEvent<'device-settings-changed', CommonDeviceEvent> |
+  WebhookEvent<'lock-status-changed', LockStatusChangedEvent> |
+  WebhookEvent<'device-battery-level-changed', DeviceBatteryLevelChangedEvent> |
+  WebhookEvent<'device-battery-start-charging', CommonDeviceEvent> |
+  WebhookEvent<'device-battery-stop-charging', CommonDeviceEvent> |
+  WebhookEvent<'device-battery-fully-charged', CommonDeviceEvent>;
@@ -0,0 +1,106 @@
+import {AxiosError} from 'axios';
+
+/**
+ * Error codes of requests that never reached the bridge, so they can be sent again safely.
+ */
+const REQUEST_NOT_SENT_CODES = ['ECONNREFUSED', 'EHOSTUNREACH', 'ENETUNREACH', 'EAI_AGAIN'];
+
+/**
+ * Represents the options of the retry policy.
+ */
+export interface RetryPolicyOptions {
+  /**
+   * Gets or sets the number of retries after the initial attempt.
+   */
+  maxRetries: number;
+
+  /**
+   * Gets or sets the delay before the first retry in milliseconds. It doubles with every retry.
+   */
+  initialDelay: number;
+
+  /**
+   * Gets or sets the maximum delay between two retries in milliseconds.
+   */
+  maxDelay: number;
+
+  /**
+   * Gets or sets a value that determines whether lock operations (lock, unlock, pull) are retried
+   * after a timeout or a server error, which may run the operation twice.
+   */
+  retryOperations: boolean;
+}
+
+/**
+ * Decides whether a failed request is retried and how long to wait before.
+ */
+export class RetryPolicy {
+  public readonly maxRetries: number;
+  private readonly initialDelay: number;
+  private readonly maxDelay: number;
+  private readonly retryOperations: boolean;
+
+  constructor(options: Partial<RetryPolicyOptions> = {}) {
+    this.maxRetries = options.maxRetries ?? 3;
+    this.initialDelay = options.initialDelay ?? 500;
+    this.maxDelay = options.maxDelay ?? 5000;
+    this.retryOperations = options.retryOperations ?? false;
+  }
+
+  /**
+   * Determines whether the failed request should be retried.
+   * @param error the error of the failed request
+   * @param attempt the number of retries so far
+   */
+  public shouldRetry(error: AxiosError, attempt: number): boolean {
+    if (attempt >= this.maxRetries) {
+      return false;
+    }
+
+    const status = error.response?.status;
+    const isOperation = this.isOperation(error);
+
+    if (status === undefined) {
+      if (error.code && REQUEST_NOT_SENT_CODES.includes(error.code)) {
+        return true;
+      }
+
+      // e.g. a timeout, the bridge may have executed the request already
+      return !isOperation || this.retryOperations;
+    }
+
+    // the internal storage of the bridge is busy, the request was not processed
+    if (status === 409) {
+      return true;
+    }
+
+    if (status >= 500) {
+      return !isOperation || this.retryOperations;
+    }
+
+    // e.g. an invalid API key or an unknown device, retrying does not help
+    return false;
+  }
+
+  /**
+   * Gets the delay before the next retry in milliseconds, using exponential backoff with jitter.
+   * @param error the error of the failed request
+   * @param attempt the number of retries so far
+   */
+  public getDelay(error: AxiosError, attempt: number): number {
+    const retryAfter = Number(error.response?.headers['retry-after']);
+    if (retryAfter > 0) {
+      return Math.min(retryAfter * 1000, this.maxDelay);
+    }
+
+    const delay = Math.min(this.initialDelay * 2 ** attempt, this.maxDelay);
+    return Math.round(delay / 2 + Math.random() * delay / 2);
+  }
+
+  /**
+   * Determines whether the request is a lock operation, which is not idempotent.
+   */
+  private isOperation(error: AxiosError): boolean {
+    return error.config?.method === 'post' && /\/lock\/\d+\/(lock|unlock|pull)$/.test(error.config.url || '');
+  }
+}
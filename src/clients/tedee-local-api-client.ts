@@ -1,15 +1,77 @@
-import axios, {AxiosError, AxiosInstance, InternalAxiosRequestConfig} from 'axios';
+import axios, {AxiosError, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig} from 'axios';
 import {createHash} from 'crypto';
 import {CallbackData} from './models/callback-data';
+import {UnlockMode} from './models/unlock-mode';
+import {AuthMode} from './models/auth-mode';
+import {BridgeDetails} from './models/bridge-details';
+import {RetryPolicy} from './retry-policy';
+import {Lock} from './models/lock';
+import {CallbackDetails} from './models/callback-details';
+import {
+  TedeeApiError,
+  TedeeAuthenticationError,
+  TedeeBridgeBusyError,
+  TedeeDeviceNotFoundError,
+  TedeeInvalidResponseError,
+  TedeeNetworkError,
+  TedeeTimeoutError,
+} from './errors';
+import {
+  isValidBridgeDetails,
+  isValidCallbackId,
+  isValidCallbackList,
+  isValidInvalidTokenResponse,
+  isValidLock,
+  isValidLockList,
+} from './validation';
+
+/**
+ * The version of the local API the client uses. Bridges only offer this version, so it is not detected.
+ */
+const API_VERSION = 'v1.0';
+
+/**
+ * The clock offset to the bridge in milliseconds below which the token timestamp is not corrected.
+ */
+const CLOCK_SKEW_TOLERANCE = 2000;
 
 interface CustomInternalAxiosRequestConfig extends InternalAxiosRequestConfig {
   retriesCount?: number; // Optional property to track retries
+  authMode?: AuthMode; // Optional property to send the request with another authentication mode than the client
+  clockRetried?: boolean; // Optional property to track the retry with a corrected timestamp
+  authFallbackTried?: boolean; // Optional property to track the retry with the other authentication mode
 }
 
 export class TedeeLocalApiClient {
   private client: AxiosInstance;
+  private _ip: string;
+  private address: string;
   private apiKey: string;
-  private maxRetries: number;
+  private authMode: AuthMode;
+  private retryPolicy: RetryPolicy;
+
+  /**
+   * Gets the offset of the bridge clock to the local clock in milliseconds, which corrects the encrypted token.
+   */
+  private clockOffset = 0;
+
+  /**
+   * Gets or sets a value that determines whether the other authentication mode is tried if the bridge rejects the token.
+   */
+  public authFallback = true;
+
+  /**
+   * Gets a value that determines whether the host proved to be a bridge by a valid response to `/bridge`.
+   * Unless the plain token is selected, it is only sent to such a host, as it is the API key itself.
+   */
+  private isVerifiedBridge = false;
+
+  /**
+   * Gets or sets the handler that is called when a request fails because the bridge is unreachable,
+   * with the number of consecutive failures.
+   */
+  public onUnreachable?: (failures: number) => void;
+  private failures = 0;
 
   private error: (d) => void;
   private debug: (d) => void;
@@ -18,14 +80,18 @@ export class TedeeLocalApiClient {
     ip: string,
     apiKey: string,
     timeout: number = 10000,
-    maxRetries: number = 3,
+    retryPolicy: RetryPolicy = new RetryPolicy(),
+    authMode: AuthMode = 'encrypted',
     error?: (d) => void,
     debug?: (d) => void,
   ) {
+    this._ip = ip;
+    this.address = 'http://' + ip;
     this.apiKey = apiKey;
-    this.maxRetries = maxRetries;
+    this.authMode = authMode;
+    this.retryPolicy = retryPolicy;
     this.client = axios.create({
-      baseURL: 'http://' + ip + '/v1.0',
+      baseURL: `${this.address}/${API_VERSION}`,
       headers: {
         accept: 'application/json',
       },
@@ -41,49 +107,80 @@ export class TedeeLocalApiClient {
     });
 
     this.client.interceptors.request.use((config) => this.appendAuthHeader(config));
-    this.client.interceptors.response.use((response) => response, (error) => this.handleErrorWithRetry(error));
+    this.client.interceptors.response.use((response) => {
+      this.failures = 0;
+      return response;
+    }, (error) => this.handleErrorWithRetry(error));
   }
 
-  private generateApiToken(): string {
-    const timestamp = Date.now();
+  /**
+   * Gets the IP address or host name of the bridge.
+   */
+  public get ip(): string {
+    return this._ip;
+  }
+
+  /**
+   * Changes the address of the bridge, e.g. after it got a new IP address.
+   */
+  public setIp(ip: string) {
+    this._ip = ip;
+    this.address = 'http://' + ip;
+    this.client.defaults.baseURL = `${this.address}/${API_VERSION}`;
+    this.failures = 0;
+    this.isVerifiedBridge = false;
+  }
+
+  private generateApiToken(authMode: AuthMode): string {
+    if (authMode === 'plain') {
+      return this.apiKey;
+    }
+
+    const timestamp = Date.now() + this.clockOffset;
     const hash = createHash('sha256').update(this.apiKey + timestamp).digest('hex');
     return `${hash}${timestamp}`;
   }
 
-  private appendAuthHeader(config: InternalAxiosRequestConfig): InternalAxiosRequestConfig {
-    config.headers['api_token'] = this.generateApiToken();
+  private appendAuthHeader(config: CustomInternalAxiosRequestConfig): InternalAxiosRequestConfig {
+    config.headers['api_token'] = this.generateApiToken(config.authMode ?? this.authMode);
     return config;
   }
 
-  private handleResponse(response) {
+  private handleResponse<T = void>(response: AxiosResponse, isValid?: (data) => data is T): T {
+    if (isValid && !isValid(response.data)) {
+      this.debug(JSON.stringify(response.data));
+      throw new TedeeInvalidResponseError(response.config.url || '', response.status);
+    }
+
     return response.data;
   }
 
-  private handleErrorWithRetry(error: AxiosError) {
+  private async handleErrorWithRetry(error: AxiosError) {
     const config = error.config as CustomInternalAxiosRequestConfig;
     if (!config) {
       return Promise.reject(error);
     }
 
+    if (error.response?.status === 401) {
+      const retry = this.retryAuthentication(error, config);
+      if (retry) {
+        return retry;
+      }
+    }
+
     config.retriesCount = config.retriesCount || 0;
 
     // Check if we should retry the request
-    if (!config || config.retriesCount >= this.maxRetries) {
+    if (!this.retryPolicy.shouldRetry(error, config.retriesCount)) {
       return Promise.reject(error);
     }
 
-    function pause(milliseconds: number) {
-      const dt = Date.now();
-      while (Date.now() - dt <= milliseconds) {
-        /* Do nothing */
-      }
-    }
-
-    pause(500);
+    const delay = this.retryPolicy.getDelay(error, config.retriesCount);
+    this.debug(`Request failed with ${error.response?.status ?? error.code}. Retrying in ${delay} ms...`);
+    this.debug(`Retry attempt ${config.retriesCount + 1} of ${this.retryPolicy.maxRetries}`);
+    this.debug(JSON.stringify(error.response?.data));
 
-    this.debug(`Request failed with status code ${error.response?.status}. Retrying...`);
-    this.debug(`Retry attempt ${config.retriesCount + 1} of ${this.maxRetries}`);
-    this.debug(JSON.stringify(error.response));
+    await new Promise(resolve => setTimeout(resolve, delay));
 
     // Increase the retry count
     config.retriesCount += 1;
@@ -92,57 +189,171 @@ export class TedeeLocalApiClient {
     return this.client(config);
   }
 
-  private handleError(error) {
-    this.error(error.response?.data || error.message);
-    this.debug(JSON.stringify(error));
-    return Promise.reject(error.response?.data || error.message);
+  /**
+   * Retries a request that the bridge rejected with 401.
+   * An encrypted token is first retried with a corrected timestamp if the clock of the bridge differs.
+   * Then the other authentication mode is tried for this request, and kept for the client if the bridge accepts it.
+   * The plain token is only tried on a host that proved to be a bridge, so that the API key is not sent to other hosts.
+   * @returns the retried request, or undefined if the request is not retried
+   */
+  private retryAuthentication(error: AxiosError, config: CustomInternalAxiosRequestConfig): Promise<AxiosResponse> | undefined {
+    const authMode = config.authMode ?? this.authMode;
+    if (authMode === 'encrypted' && !config.clockRetried && this.updateClockOffset(error.response?.headers['date'])) {
+      config.clockRetried = true;
+      this.debug('Bridge rejected the API token, retrying with corrected timestamp...');
+      return this.client(config);
+    }
+
+    const fallbackMode: AuthMode = authMode === 'encrypted' ? 'plain' : 'encrypted';
+    if (!this.authFallback || config.authFallbackTried || (fallbackMode === 'plain' && !this.isVerifiedBridge)) {
+      return undefined;
+    }
+
+    this.debug(`Bridge rejected the ${authMode} API token, retrying with ${fallbackMode} token...`);
+    config.authFallbackTried = true;
+    config.authMode = fallbackMode;
+
+    return this.client(config).then(response => {
+      this.authMode = fallbackMode;
+      this.error(`Bridge only accepted the ${fallbackMode} API token, please set the authentication mode to ${fallbackMode}.`);
+      return response;
+    });
+  }
+
+  /**
+   * Corrects the timestamp of the encrypted token by the offset between the clock of the bridge and the local clock.
+   * @param time the current time of the bridge
+   * @returns true if the offset changed
+   */
+  private updateClockOffset(time: string | undefined): boolean {
+    const bridgeTime = time ? Date.parse(time) : NaN;
+    if (isNaN(bridgeTime)) {
+      return false;
+    }
+
+    const offset = bridgeTime - Date.now();
+    const clockOffset = Math.abs(offset) < CLOCK_SKEW_TOLERANCE ? 0 : offset;
+    if (Math.abs(clockOffset - this.clockOffset) < CLOCK_SKEW_TOLERANCE) {
+      return false;
+    }
+
+    this.debug(`Clock of the bridge differs by ${Math.round(offset / 1000)} s, correcting the API token.`);
+    this.clockOffset = clockOffset;
+    return true;
   }
 
-  async getBridgeDetails() {
+  private handleError(error): Promise<never> {
+    const apiError = this.toApiError(error);
+    this.error(apiError.message);
+
+    if (apiError instanceof TedeeNetworkError || apiError instanceof TedeeTimeoutError) {
+      this.failures++;
+      this.onUnreachable?.(this.failures);
+    } else {
+      this.failures = 0;
+    }
+
+    return Promise.reject(apiError);
+  }
+
+  /**
+   * Converts a failed request into the matching typed error.
+   */
+  private toApiError(error): TedeeApiError {
+    if (error instanceof TedeeApiError) {
+      return error;
+    }
+
+    if (!axios.isAxiosError(error)) {
+      return new TedeeApiError(String(error));
+    }
+
+    this.debug(`${error.config?.method?.toUpperCase()} ${error.config?.url} failed: ${error.message}`);
+
+    const status = error.response?.status;
+    if (status === undefined) {
+      if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+        return new TedeeTimeoutError();
+      }
+
+      return new TedeeNetworkError(error.code || error.message);
+    }
+
+    const description: string | undefined = error.response?.data?.['error-description'];
+    switch (status) {
+      case 401:
+        return new TedeeAuthenticationError();
+      case 404:
+        return description ? new TedeeDeviceNotFoundError(`${description}.`) : new TedeeDeviceNotFoundError();
+      case 409:
+        return new TedeeBridgeBusyError();
+      default:
+        return new TedeeApiError(`The bridge responded with status ${status}${description ? `: ${description}` : ''}.`, status);
+    }
+  }
+
+  /**
+   * Gets the details of the bridge and synchronizes the clock offset.
+   * Should be called before any other request.
+   */
+  async connect(): Promise<BridgeDetails> {
+    return this.getBridgeDetails();
+  }
+
+  async getBridgeDetails(): Promise<BridgeDetails> {
     try {
-      const response = await this.client.get('/bridge');
-      return this.handleResponse(response);
+      return await this.fetchBridgeDetails();
     } catch (error) {
       return this.handleError(error);
     }
   }
 
-  async checkApiHealth(): Promise<boolean> {
-    try {
-      const response = await this.client.get('/bridge');
+  private async fetchBridgeDetails(): Promise<BridgeDetails> {
+    const response = await this.client.get('/bridge');
+    const bridge = this.handleResponse(response, isValidBridgeDetails);
+    this.updateClockOffset(bridge.currentTime);
+    this.isVerifiedBridge = true;
+    return bridge;
+  }
 
-      // Return false if status is OK but content not to spec
-      return response.status === 200 && this.isValidBridgeDetails(response.data);
+  /**
+   * Checks without sending a token whether the host answers like a bridge, which rejects the request with 401 and an error description.
+   */
+  async identify(): Promise<boolean> {
+    try {
+      const response = await axios.get(`${this.address}/${API_VERSION}/bridge`, {
+        headers: {accept: 'application/json'},
+        timeout: this.client.defaults.timeout,
+        validateStatus: () => true,
+      });
+      return response.status === 401 && isValidInvalidTokenResponse(response.data);
     } catch (error) {
-      return false; // Returns false if the request fails
+      return false;
     }
   }
 
-  // Validation function to check if response matches the BridgeDetails schema
-  private isValidBridgeDetails(data): boolean {
-    return typeof data === 'object' &&
-      typeof data.name === 'string' &&
-      typeof data.currentTime === 'string' &&
-      typeof data.serialNumber === 'string' &&
-      typeof data.ssid === 'string' &&
-      (data.isConnected === 0 || data.isConnected === 1) &&
-      typeof data.version === 'string' &&
-      typeof data.wifiVersion === 'string';
+  async checkApiHealth(): Promise<boolean> {
+    try {
+      await this.fetchBridgeDetails();
+      return true;
+    } catch (error) {
+      return false; // Returns false if the request fails or the content is not to spec
+    }
   }
 
-  async getLockList() {
+  async getLockList(): Promise<Lock[]> {
     try {
       const response = await this.client.get('/lock');
-      return this.handleResponse(response);
+      return this.handleResponse(response, isValidLockList);
     } catch (error) {
       return this.handleError(error);
     }
   }
 
-  async getLockById(deviceId: number) {
+  async getLockById(deviceId: number): Promise<Lock> {
     try {
       const response = await this.client.get(`/lock/${deviceId}`);
-      return this.handleResponse(response);
+      return this.handleResponse(response, isValidLock);
     } catch (error) {
       return this.handleError(error);
     }
@@ -157,14 +368,16 @@ export class TedeeLocalApiClient {
     }
   }
 
-  async unlockDevice(deviceId: number, mode?: number | undefined): Promise<void> {
+  async unlockDevice(deviceId: number, mode?: UnlockMode | undefined): Promise<void> {
     if (typeof mode === 'undefined') {
       mode = 4;
     }
 
     try {
-      const response = await this.client.post(`/lock/${deviceId}/unlock`, {
-        mode: mode,
+      const response = await this.client.post(`/lock/${deviceId}/unlock`, undefined, {
+        params: {
+          mode: mode,
+        },
       });
       return this.handleResponse(response);
     } catch (error) {
@@ -182,25 +395,25 @@ export class TedeeLocalApiClient {
   }
 
   // Callback methods
-  async listCallbacks() {
+  async listCallbacks(): Promise<CallbackDetails[]> {
     try {
       const response = await this.client.get('/callback');
-      return this.handleResponse(response);
+      return this.handleResponse(response, isValidCallbackList);
     } catch (error) {
       return this.handleError(error);
     }
   }
 
-  async addCallback(callbackData: CallbackData) {
+  async addCallback(callbackData: CallbackData): Promise<{ id: number }> {
     try {
       const response = await this.client.post('/callback', callbackData);
-      return this.handleResponse(response);
+      return this.handleResponse(response, isValidCallbackId);
     } catch (error) {
       return this.handleError(error);
     }
   }
 
-  async setMultipleCallbacks(callbacks: CallbackData[]) {
+  async setMultipleCallbacks(callbacks: CallbackData[]): Promise<void> {
     try {
       const response = await this.client.put('/callback', callbacks);
       return this.handleResponse(response);
@@ -218,7 +431,7 @@ export class TedeeLocalApiClient {
     }
   }
 
-  async updateCallback(callbackId: number, callbackDetails): Promise<void> {
+  async updateCallback(callbackId: number, callbackDetails: CallbackData): Promise<void> {
     try {
       const response = await this.client.put(`/callback/${callbackId}`, callbackDetails);
       return this.handleResponse(response);
@@ -0,0 +1,113 @@
+import {WebhookPayload} from './models/webhook-payload';
+import {Lock} from './models/lock';
+import {BridgeDetails} from './models/bridge-details';
+import {CallbackDetails} from './models/callback-details';
+
+const LOCK_STATES = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 255];
+
+function isObject(value): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFlag(value): boolean {
+  return value === 0 || value === 1;
+}
+
+function isCommonDeviceEvent(data): boolean {
+  return isObject(data) &&
+    (data.deviceType === 2 || data.deviceType === 4) &&
+    Number.isInteger(data.deviceId) &&
+    typeof data.serialNumber === 'string';
+}
+
+/**
+ * Validates that the payload of a webhook request matches the schema of its event.
+ */
+export function isValidWebhookPayload(payload): payload is WebhookPayload {
+  if (!isObject(payload) || typeof payload.timestamp !== 'string' || !isObject(payload.data)) {
+    return false;
+  }
+
+  const data = payload.data;
+  switch (payload.event) {
+    case 'backend-connection-changed':
+      return isFlag(data.isConnected);
+    case 'device-connection-changed':
+      return isCommonDeviceEvent(data) && isFlag(data.isConnected);
+    case 'lock-status-changed':
+      return isCommonDeviceEvent(data) && LOCK_STATES.includes(data.state) && isFlag(data.jammed);
+    case 'device-battery-level-changed':
+      return isCommonDeviceEvent(data) && Number.isInteger(data.batteryLevel) && data.batteryLevel >= 0 && data.batteryLevel <= 255;
+    case 'device-settings-changed':
+    case 'device-battery-start-charging':
+    case 'device-battery-stop-charging':
+    case 'device-battery-fully-charged':
+      return isCommonDeviceEvent(data);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Validates that the response of `/bridge` matches the bridge details schema.
+ */
+export function isValidBridgeDetails(data): data is BridgeDetails {
+  return isObject(data) &&
+    typeof data.name === 'string' &&
+    typeof data.currentTime === 'string' &&
+    typeof data.serialNumber === 'string' &&
+    typeof data.ssid === 'string' &&
+    isFlag(data.isConnected) &&
+    typeof data.version === 'string' &&
+    typeof data.wifiVersion === 'string';
+}
+
+/**
+ * Validates that the response of `/lock/{id}` matches the lock schema.
+ * Only the properties the plugin relies on are checked.
+ */
+export function isValidLock(data): data is Lock {
+  return isObject(data) &&
+    (data.type === 2 || data.type === 4) &&
+    Number.isInteger(data.id) &&
+    typeof data.name === 'string' &&
+    typeof data.serialNumber === 'string' &&
+    isFlag(data.isConnected) &&
+    LOCK_STATES.includes(data.state) &&
+    isFlag(data.jammed) &&
+    Number.isInteger(data.batteryLevel) &&
+    isFlag(data.isCharging) &&
+    isObject(data.deviceSettings);
+}
+
+/**
+ * Validates that the response of `/lock` is a list of locks.
+ */
+export function isValidLockList(data): data is Lock[] {
+  return Array.isArray(data) && data.every(isValidLock);
+}
+
+/**
+ * Validates that the response of `/callback` is a list of registered callbacks.
+ */
+export function isValidCallbackList(data): data is CallbackDetails[] {
+  return Array.isArray(data) && data.every(c => isObject(c) &&
+    Number.isInteger(c.id) &&
+    typeof c.url === 'string' &&
+    (c.method === 'POST' || c.method === 'GET') &&
+    Array.isArray(c.headers));
+}
+
+/**
+ * Validates that the response of adding a callback contains its ID.
+ */
+export function isValidCallbackId(data): data is { id: number } {
+  return isObject(data) && Number.isInteger(data.id);
+}
+
+/**
+ * Validates that the response to a request without token matches the invalid token schema of the bridge.
+ */
+export function isValidInvalidTokenResponse(data): data is { 'error-description': string } {
+  return isObject(data) && typeof data['error-description'] === 'string';
+}
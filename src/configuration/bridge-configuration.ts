@@ -0,0 +1,37 @@
+import {DeviceConfiguration} from './device-configuration';
+import {AuthMode} from '../clients/models/auth-mode';
+
+/**
+ * Represents a Tedee bridge in the homebridge configuration for the plugin.
+ */
+export interface BridgeConfiguration {
+  /**
+   * Gets or sets the name of the bridge that is used in the log. Defaults to the name of the bridge in the tedee app.
+   */
+  name?: string;
+
+  /**
+   * Gets or sets the IP of the bridge.
+   */
+  bridgeIp?: string;
+
+  /**
+   * Gets or sets the serial number of the bridge that discovery should find.
+   */
+  bridgeSerialNumber?: string;
+
+  /**
+   * Gets or sets the Api Key of the bridge
+   */
+  apiKey: string;
+
+  /**
+   * Gets or sets the type of the API token. Defaults to the type of the platform.
+   */
+  authMode: AuthMode;
+
+  /**
+   * Gets or sets the devices of this bridge. They take priority over the devices of the platform.
+   */
+  devices?: DeviceConfiguration[];
+}
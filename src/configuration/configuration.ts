@@ -1,14 +1,41 @@
 import {DeviceConfiguration} from './device-configuration';
+import {BridgeConfiguration} from './bridge-configuration';
+import {AuthMode} from '../clients/models/auth-mode';
 
 /**
  * Represents the homebridge configuration for the plugin.
  */
 export interface Configuration {
+  /**
+   * Gets or sets the bridges. If not set, the single bridge of `bridgeIp`, `apiKey` and `devices` is used.
+   */
+  bridges?: BridgeConfiguration[];
+
   /**
    * Gets or sets the IP of the bridge.
    */
   bridgeIp: string;
 
+  /**
+   * Gets or sets the serial number of the bridge that discovery should find.
+   */
+  bridgeSerialNumber?: string;
+
+  /**
+   * Gets or sets the subnets in CIDR notation that are scanned during discovery.
+   */
+  discoverySubnets?: string[];
+
+  /**
+   * Gets or sets the maximum number of hosts that are probed at the same time during discovery.
+   */
+  discoveryConcurrency: number;
+
+  /**
+   * Gets or sets a value that determines whether the cached bridge addresses are cleared at startup.
+   */
+  clearBridgeAddressCache: boolean;
+
   /**
    * Gets or sets the Api Key of the bridge
    */
@@ -24,6 +51,16 @@ export interface Configuration {
    */
   maximumApiRetry: number;
 
+  /**
+   * Gets or sets a value that determines whether lock operations are retried after a timeout or a server error.
+   */
+  retryOperations: boolean;
+
+  /**
+   * Gets or sets the type of the API token. The other type is tried if the bridge rejects the token.
+   */
+  authMode: AuthMode;
+
   /**
    * Gets or sets the devices that should be exposed to HomeKit.
    */
@@ -33,4 +70,86 @@ export interface Configuration {
    * Gets or sets the Port for the Webhook.
    */
   webhookPort: number;
+
+  /**
+   * Gets or sets the public base URL the bridge sends the webhook requests to, e.g. when a reverse proxy is used.
+   */
+  webhookUrl?: string;
+
+  /**
+   * Gets or sets the host name or IP address of Homebridge that the bridge sends the webhook requests to.
+   */
+  webhookHost?: string;
+
+  /**
+   * Gets or sets the address on which the webhook server listens. If not set, it listens on all interfaces.
+   */
+  webhookListenAddress?: string;
+
+  /**
+   * Gets or sets the path prefix under which the webhook server receives the requests.
+   */
+  webhookPathPrefix?: string;
+
+  /**
+   * Gets or sets the polling interval in seconds while webhooks are received.
+   */
+  pollingInterval: number;
+
+  /**
+   * Gets or sets the polling interval in seconds when no webhook was received for a while.
+   */
+  fastPollingInterval: number;
+
+  /**
+   * Gets or sets the time in seconds without webhooks after which the fast polling interval is used.
+   */
+  webhookSilenceTimeout: number;
+
+  /**
+   * Gets or sets a value that determines whether the locks are only polled and no webhook is registered.
+   */
+  pollingOnly: boolean;
+
+  /**
+   * Gets or sets the interval in seconds in which the webhook callback registration is verified.
+   */
+  callbackVerificationInterval: number;
+
+  /**
+   * Gets or sets a value that determines whether webhook requests are only accepted from the IP address of the bridge.
+   */
+  restrictWebhookToBridge: boolean;
+
+  /**
+   * Gets or sets a value that determines whether the bridge is exposed to HomeKit.
+   */
+  bridgeAccessory: boolean;
+
+  /**
+   * Gets or sets the type of the sensors that show the connectivity of the bridge.
+   */
+  bridgeSensorType: 'contact' | 'occupancy';
+
+  /**
+   * Gets or sets the time in seconds after which a lock operation without a final state is considered done.
+   */
+  operationTimeout: number;
+
+  /**
+   * Gets or sets how lock operations are handled while the lock is busy.
+   * queue: the operations are run one after another.
+   * latestWins: only the latest operation is run after the operation in flight.
+   */
+  commandMode: 'queue' | 'latestWins';
+
+  /**
+   * Gets or sets the maximum size of an event history file in KB, 0 disables the event history.
+   */
+  historyMaxSize: number;
+
+  /**
+   * Gets or sets the battery level in percent below which the battery is reported as low, unless set for the device.
+   */
+  lowBatteryThreshold: number;
 }
@@ -1,17 +1,45 @@
+/**
+ * The device settings that can be exposed to HomeKit as read-only switches.
+ */
+export type DeviceSettingSwitch = 'autoLock' | 'pullSpring' | 'postponedLock' | 'buttonLock' | 'buttonUnlock';
+
+/**
+ * Represents a time window of a day with times of the format HH:MM, e.g. from 22:00 until 06:00.
+ */
+export interface TimeWindow {
+  from: string;
+  until: string;
+}
+
 /**
  * Represents a Tedee device in the homebridge configuration for the plugin.
  */
 export interface DeviceConfiguration {
   /**
-   * Gets or sets the name of the device (used for config mapping).
+   * Gets or sets the serial number of the device (used for config mapping).
    */
-  name: string;
+  serialNumber?: string;
+
+  /**
+   * Gets or sets the ID of the device (used for config mapping if no serial number is set).
+   */
+  id?: number;
+
+  /**
+   * Gets or sets the name of the device (used for config mapping if neither serial number nor ID are set).
+   */
+  name?: string;
 
   /**
    * Should this device be hidden from HoneKit
    */
   ignored: boolean;
 
+  /**
+   * @deprecated Previous versions of the config UI stored `ignore` instead of `ignored`.
+   */
+  ignore?: boolean;
+
   /**
    * Gets or sets a value that determines whether the unlatch (unlocked to unlocked) is enabled.
    */
@@ -36,4 +64,74 @@ export interface DeviceConfiguration {
    * Gets or sets the default latch name.
    */
   defaultLatchName: string;
+
+  /**
+   * Gets or sets the device settings that are exposed to HomeKit as read-only switches.
+   */
+  settingSwitches: Array<DeviceSettingSwitch>;
+
+  /**
+   * Gets or sets a value that determines whether a switch that locks the lock after a delay is exposed to HomeKit.
+   */
+  postponedLockSwitch: boolean;
+
+  /**
+   * Gets or sets the delay of the postponed lock switch in seconds.
+   */
+  postponedLockDelay: number;
+
+  /**
+   * Gets or sets a value that determines whether an Eve history of the openings is recorded.
+   */
+  eveHistory: boolean;
+
+  /**
+   * Gets or sets the battery level in percent below which the battery is reported as low.
+   */
+  lowBatteryThreshold: number;
+
+  /**
+   * Gets or sets the type of the sensor that is tripped when the lock is left unlocked, or none if it is not exposed.
+   */
+  leftUnlockedSensor: 'none' | 'contact' | 'occupancy';
+
+  /**
+   * Gets or sets the time in minutes after which an unlocked lock trips the left unlocked sensor.
+   */
+  leftUnlockedDelay: number;
+
+  /**
+   * Gets or sets the time of day (HH:MM) from which on the left unlocked sensor is tripped.
+   */
+  leftUnlockedFrom?: string;
+
+  /**
+   * Gets or sets the time of day (HH:MM) until which the left unlocked sensor is tripped.
+   */
+  leftUnlockedUntil?: string;
+
+  /**
+   * Gets or sets the type of the sensor that is tripped when the lock is jammed, or none if it is not exposed.
+   */
+  jammedSensor: 'none' | 'leak' | 'motion';
+
+  /**
+   * Gets or sets a value that determines whether the plugin locks the lock again after it was opened.
+   */
+  autoRelock: boolean;
+
+  /**
+   * Gets or sets the time in seconds after which an open lock is locked again.
+   */
+  autoRelockDelay: number;
+
+  /**
+   * Gets or sets the time windows in which every opening is locked again. Outside of them, only openings via HomeKit are.
+   */
+  autoRelockWindows?: Array<TimeWindow>;
+
+  /**
+   * Gets or sets a value that determines whether a switch that pauses the automatic re-lock is exposed to HomeKit.
+   */
+  autoRelockPauseSwitch: boolean;
 }
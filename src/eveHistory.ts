@@ -0,0 +1,143 @@
+import {Characteristic, PlatformAccessory, Service} from 'homebridge';
+import fakegato from 'fakegato-history';
+
+import {PLUGIN_NAME} from './settings';
+import {HomebridgeTedeePlatform} from './platform';
+import {LockState} from './clients/models/lock-state';
+import {EveStatistics} from './storage/storage-data';
+
+/**
+ * The UUID of the Eve history service.
+ */
+const EVE_HISTORY_SERVICE_UUID = 'E863F007-079E-48FF-8F27-9C2605A29F52';
+
+/**
+ * The UUIDs of the Eve characteristics that show the door statistics.
+ */
+const EVE_LAST_ACTIVATION_UUID = 'E863F11A-079E-48FF-8F27-9C2605A29F52';
+const EVE_TIMES_OPENED_UUID = 'E863F129-079E-48FF-8F27-9C2605A29F52';
+const EVE_RESET_TOTAL_UUID = 'E863F112-079E-48FF-8F27-9C2605A29F52';
+const EVE_CHARACTERISTIC_UUIDS = [EVE_LAST_ACTIVATION_UUID, EVE_TIMES_OPENED_UUID, EVE_RESET_TOTAL_UUID];
+
+// the history service class can only be created once per process, as it registers global timers
+let FakeGatoHistoryService: ReturnType<typeof fakegato> | undefined;
+
+/**
+ * Eve History
+ * Records when the lock is opened and closed in an Eve door history, so that the Eve app shows a timeline of the lock.
+ */
+export class EveHistory {
+  private readonly history: InstanceType<ReturnType<typeof fakegato>>;
+  private readonly lastActivation: Characteristic;
+  private readonly timesOpened: Characteristic;
+  private readonly serialNumber: string;
+  private status: number | undefined;
+
+  constructor(
+    private readonly platform: HomebridgeTedeePlatform,
+    accessory: PlatformAccessory,
+    private readonly service: Service,
+  ) {
+    const hap = this.platform.api.hap;
+    this.serialNumber = accessory.context.device.serialNumber;
+
+    if (!FakeGatoHistoryService) {
+      FakeGatoHistoryService = fakegato(this.platform.api);
+    }
+
+    this.history = new FakeGatoHistoryService('door', accessory, {
+      storage: 'fs',
+      path: this.platform.api.user.storagePath(),
+      filename: `${PLUGIN_NAME}-eve-${this.serialNumber}.json`,
+      log: this.platform.log,
+    });
+
+    this.lastActivation = this.getCharacteristic('Last Activation', EVE_LAST_ACTIVATION_UUID, [hap.Perms.PAIRED_READ, hap.Perms.NOTIFY])
+      .onGet(() => this.getLastActivation());
+    this.timesOpened = this.getCharacteristic('Times Opened', EVE_TIMES_OPENED_UUID, [hap.Perms.PAIRED_READ, hap.Perms.NOTIFY])
+      .onGet(() => this.getStatistics().timesOpened);
+    this.getCharacteristic('Reset Total', EVE_RESET_TOTAL_UUID, [hap.Perms.PAIRED_READ, hap.Perms.PAIRED_WRITE, hap.Perms.NOTIFY])
+      .onGet(() => this.getStatistics().resetTotal)
+      .onSet(value => this.reset(value as number))
+      .updateValue(this.getStatistics().resetTotal);
+    this.timesOpened.updateValue(this.getStatistics().timesOpened);
+  }
+
+  /**
+   * Removes the history service and the Eve characteristics of an accessory whose history was disabled.
+   */
+  static remove(accessory: PlatformAccessory, service: Service) {
+    const historyService = accessory.services.find(s => s.UUID === EVE_HISTORY_SERVICE_UUID);
+    if (historyService) {
+      accessory.removeService(historyService);
+    }
+
+    for (const characteristic of service.characteristics.filter(c => EVE_CHARACTERISTIC_UUIDS.includes(c.UUID))) {
+      service.removeCharacteristic(characteristic);
+    }
+  }
+
+  /**
+   * Records the state of the lock, if it is opened or closed. Intermediate states are skipped.
+   */
+  recordState(state: LockState) {
+    const status = state === 6 ? 0 : (state === 2 || state === 3 || state === 7 ? 1 : undefined);
+    if (status === undefined || status === this.status) {
+      return;
+    }
+
+    // the first state after the start is only recorded if it differs from the last recorded one
+    const isChange = this.status !== undefined || status !== this.getStatistics().lastStatus;
+    this.status = status;
+    if (!isChange) {
+      return;
+    }
+
+    const time = Math.round(Date.now() / 1000);
+    this.history.addEntry({time, status});
+
+    const statistics = this.getStatistics();
+    this.setStatistics({
+      ...statistics,
+      lastStatus: status,
+      lastActivation: time,
+      timesOpened: statistics.timesOpened + status,
+    });
+
+    this.lastActivation.updateValue(this.getLastActivation());
+    this.timesOpened.updateValue(this.getStatistics().timesOpened);
+  }
+
+  private getLastActivation(): number {
+    // the initial time is not known until the history file is loaded
+    const lastActivation = this.getStatistics().lastActivation;
+    const initialTime = this.history.getInitialTime();
+    return lastActivation && Number.isFinite(initialTime) ? Math.max(0, lastActivation - initialTime) : 0;
+  }
+
+  /**
+   * Resets the number of openings, Eve sends the time of the reset.
+   */
+  private reset(resetTotal: number) {
+    this.platform.log.debug(`[${this.service.displayName}] Resetting Eve statistics.`);
+    this.setStatistics({...this.getStatistics(), timesOpened: 0, resetTotal});
+    this.timesOpened.updateValue(0);
+  }
+
+  private getStatistics(): EveStatistics {
+    return this.platform.storage.get('eveHistory')?.[this.serialNumber] || {timesOpened: 0, resetTotal: 0, lastActivation: 0};
+  }
+
+  private setStatistics(statistics: EveStatistics) {
+    this.platform.storage.set('eveHistory', {...this.platform.storage.get('eveHistory'), [this.serialNumber]: statistics});
+  }
+
+  /**
+   * Gets the Eve characteristic of the lock service, it is added if the accessory was not restored with it.
+   */
+  private getCharacteristic(name: string, uuid: string, perms: Characteristic['props']['perms']): Characteristic {
+    const hap = this.platform.api.hap;
+    return this.service.characteristics.find(c => c.UUID === uuid) ||
+      this.service.addCharacteristic(new hap.Characteristic(name, uuid, {format: hap.Formats.UINT32, perms}));
+  }
+}
@@ -0,0 +1,145 @@
+import {HomebridgePluginUiServer, RequestError} from '@homebridge/plugin-ui-utils';
+import {Logger} from 'homebridge';
+import path from 'path';
+
+import {PLUGIN_NAME} from '../settings';
+import {WEBHOOK_SECRET_HEADER} from '../bridgeConnection';
+import {BridgeDiscovery} from '../bridgeDiscovery';
+import {TedeeLocalApiClient} from '../clients/tedee-local-api-client';
+import {RetryPolicy} from '../clients/retry-policy';
+import {AuthMode} from '../clients/models/auth-mode';
+import {PluginStorage} from '../storage/plugin-storage';
+
+/**
+ * The timeout in milliseconds for the API calls of the UI.
+ */
+const UI_TIMEOUT = 5000;
+
+/**
+ * Represents the connection settings of a bridge that the UI sends with each request.
+ */
+interface BridgeRequest {
+  address?: string;
+  apiKey?: string;
+  authMode?: AuthMode;
+  serialNumber?: string;
+  subnets?: string[];
+}
+
+/**
+ * Tedee Plugin UI Server
+ * Handles the requests of the custom plugin page: discovers bridges, tests the API key, and lists locks and callbacks.
+ */
+class TedeePluginUiServer extends HomebridgePluginUiServer {
+  private readonly log: Logger;
+
+  constructor() {
+    super();
+
+    this.log = this.createLogger();
+
+    this.onRequest('/discover', (request: BridgeRequest) => this.discover(request));
+    this.onRequest('/bridge', (request: BridgeRequest) => this.withClient(request, async (client, warnings) => ({
+      bridge: await client.getBridgeDetails(),
+      warnings,
+    })));
+    this.onRequest('/locks', (request: BridgeRequest) => this.withClient(request, client => client.getLockList()));
+    this.onRequest('/callbacks', (request: BridgeRequest) => this.withClient(request, async client => {
+      const secret = this.getStorage()?.get('webhookSecret');
+      const callbacks = await client.listCallbacks();
+
+      // the secret is not sent to the UI, only whether the callback belongs to the plugin
+      return callbacks.map(callback => ({
+        id: callback.id,
+        url: callback.url,
+        method: callback.method,
+        isOwn: !!secret && callback.headers.some(header => header[WEBHOOK_SECRET_HEADER] === secret),
+      }));
+    }));
+    this.onRequest('/callbacks/delete', (request: BridgeRequest & { id: number }) => this.withClient(request, async client => {
+      await client.deleteCallback(request.id);
+      return {id: request.id};
+    }));
+
+    this.ready();
+  }
+
+  /**
+   * Discovers the bridge that accepts the API key, starting with the given and the cached addresses.
+   */
+  private async discover(request: BridgeRequest) {
+    if (!request.apiKey) {
+      throw new RequestError('Please enter the API key of the bridge first.', {});
+    }
+
+    const cachedAddresses = this.getStorage()?.get('bridgeAddresses') || {};
+    const candidates = request.serialNumber ?
+      [request.address, cachedAddresses[request.serialNumber]] :
+      [request.address, ...Object.values(cachedAddresses)];
+
+    const discovery = new BridgeDiscovery(this.log, {
+      apiKey: request.apiKey,
+      timeout: UI_TIMEOUT,
+      serialNumber: request.serialNumber || undefined,
+      subnets: request.subnets,
+      concurrency: 10,
+    });
+
+    return discovery.discover([...new Set(candidates.filter((c): c is string => !!c))]);
+  }
+
+  /**
+   * Connects to the bridge and runs the action with the client.
+   * @param request the connection settings of the bridge
+   * @param action the action, it receives the warnings of the client, e.g. about a fallback of the authentication mode
+   */
+  private async withClient<T>(request: BridgeRequest, action: (client: TedeeLocalApiClient, warnings: string[]) => Promise<T>): Promise<T> {
+    if (!request.address || !request.apiKey) {
+      throw new RequestError('Please enter the API key and search the bridge first.', {});
+    }
+
+    const warnings: string[] = [];
+    const client = new TedeeLocalApiClient(
+      request.address,
+      request.apiKey,
+      UI_TIMEOUT,
+      new RetryPolicy({maxRetries: 0}),
+      request.authMode || 'encrypted',
+      (e) => warnings.push(e),
+      () => undefined,
+    );
+
+    await client.connect();
+    return action(client, warnings);
+  }
+
+  /**
+   * Gets the storage of the plugin, if the Homebridge storage path is known.
+   */
+  private getStorage(): PluginStorage | undefined {
+    if (!this.homebridgeStoragePath) {
+      return undefined;
+    }
+
+    return new PluginStorage(path.join(this.homebridgeStoragePath, `${PLUGIN_NAME}.json`), this.log);
+  }
+
+  /**
+   * Creates a logger that forwards the messages to the UI, e.g. the progress of the discovery.
+   */
+  private createLogger(): Logger {
+    const push = (level: string, message: string) => this.pushEvent('log', {level, message});
+
+    return {
+      prefix: PLUGIN_NAME,
+      info: message => push('info', message),
+      success: message => push('info', message),
+      warn: message => push('warn', message),
+      error: message => push('error', message),
+      debug: () => undefined,
+      log: (level, message) => push(level, message),
+    };
+  }
+}
+
+(() => new TedeePluginUiServer())();
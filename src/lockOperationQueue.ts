@@ -0,0 +1,155 @@
+import {Logger} from 'homebridge';
+
+/**
+ * The operations that can be sent to a lock.
+ */
+export type LockOperationType = 'lock' | 'unlock' | 'unlatch';
+
+/**
+ * Represents a queued operation.
+ */
+interface LockOperation {
+  type: LockOperationType;
+
+  /**
+   * Sends the operation to the bridge.
+   * Resolves to true if the lock is expected to move, i.e. the operation completes once the lock reports a final state.
+   */
+  execute: () => Promise<boolean>;
+
+  /**
+   * Resolves once the operation was sent to the bridge.
+   */
+  sent: Promise<void>;
+  resolve: () => void;
+  reject: (e) => void;
+}
+
+/**
+ * Lock Operation Queue
+ * Runs the operations of a single lock one after another. An operation is in flight until the lock reports a final state,
+ * or until it times out, in which case the state of the lock is reconciled from the API.
+ */
+export class LockOperationQueue {
+  private current: LockOperation | undefined;
+  private pending: LockOperation[] = [];
+  private timeout: NodeJS.Timeout | undefined;
+
+  constructor(
+    private readonly name: string,
+    private readonly log: Logger,
+    private readonly timeoutMilliseconds: number,
+    private readonly latestWins: boolean,
+    private readonly reconcile: () => Promise<void>,
+  ) {
+  }
+
+  /**
+   * Gets a value that determines whether an operation is in flight.
+   */
+  public get isBusy(): boolean {
+    return this.current !== undefined;
+  }
+
+  /**
+   * Adds an operation to the queue.
+   * An operation with the same type as the last requested one collapses into it.
+   * In latest wins mode, the new operation replaces the operations that are still waiting.
+   * @returns a promise that resolves once the operation was sent to the bridge
+   */
+  public enqueue(type: LockOperationType, execute: () => Promise<boolean>): Promise<void> {
+    const last = this.pending.length > 0 ? this.pending[this.pending.length - 1] : this.current;
+    if (last && last.type === type) {
+      this.log.debug(`[${this.name}] Operation ${type} is already requested.`);
+      return last.sent;
+    }
+
+    if (this.latestWins) {
+      for (const operation of this.pending) {
+        this.log.debug(`[${this.name}] Operation ${operation.type} is replaced by ${type}.`);
+        operation.resolve();
+      }
+      this.pending = [];
+    }
+
+    let resolve: () => void = () => undefined;
+    let reject: (e) => void = () => undefined;
+    const sent = new Promise<void>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+
+    this.pending.push({type, execute, sent, resolve, reject});
+    this.next();
+
+    return sent;
+  }
+
+  /**
+   * Completes the operation in flight, e.g. when the lock reports a final state, and starts the next one.
+   */
+  public complete() {
+    if (this.timeout) {
+      clearTimeout(this.timeout);
+      this.timeout = undefined;
+    }
+
+    this.current = undefined;
+    this.next();
+  }
+
+  /**
+   * Drops all operations, e.g. when the lock is disconnected and cannot complete them.
+   */
+  public cancel() {
+    for (const operation of this.pending) {
+      this.log.debug(`[${this.name}] Operation ${operation.type} is cancelled.`);
+      operation.resolve();
+    }
+    this.pending = [];
+
+    if (this.timeout) {
+      clearTimeout(this.timeout);
+      this.timeout = undefined;
+    }
+    this.current = undefined;
+  }
+
+  private next() {
+    if (this.current || this.pending.length === 0) {
+      return;
+    }
+
+    const operation = this.pending.shift()!;
+    this.current = operation;
+    this.timeout = setTimeout(() => this.handleTimeout(operation), this.timeoutMilliseconds);
+
+    operation.execute()
+      .then(isMoving => {
+        operation.resolve();
+        if (!isMoving && this.current === operation) {
+          this.complete();
+        }
+      })
+      .catch(e => {
+        operation.reject(e);
+        if (this.current === operation) {
+          this.complete();
+        }
+      });
+  }
+
+  private handleTimeout(operation: LockOperation) {
+    if (this.current !== operation) {
+      return;
+    }
+
+    this.log.warn(`[${this.name}] Operation ${operation.type} timed out, syncing the lock from the API.`);
+    this.reconcile()
+      .finally(() => {
+        if (this.current === operation) {
+          this.complete();
+        }
+      });
+  }
+}
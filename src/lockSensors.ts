@@ -0,0 +1,213 @@
+import {Characteristic, CharacteristicValue, PlatformAccessory, Service, WithUUID} from 'homebridge';
+
+import {HomebridgeTedeePlatform} from './platform';
+import {DeviceConfiguration} from './configuration/device-configuration';
+import {isWithinTimeWindow, parseTime} from './timeWindow';
+
+/**
+ * The interval in milliseconds in which a lock that is unlocked for longer than the delay is checked against the schedule.
+ */
+const SCHEDULE_CHECK_INTERVAL = 60 * 1000;
+
+/**
+ * Represents the service of a sensor type, the characteristic that shows whether it is tripped, and its values.
+ */
+interface SensorType {
+  service: WithUUID<typeof Service>;
+  characteristic: WithUUID<new () => Characteristic>;
+  tripped: CharacteristicValue;
+  normal: CharacteristicValue;
+}
+
+/**
+ * Lock Sensors
+ * Exposes the optional sensors of a lock, which HomeKit can send notifications for.
+ * One is tripped when the lock is left unlocked for a while, the other when the lock is jammed.
+ */
+export class LockSensors {
+  private readonly leftUnlockedSensor: Service | undefined;
+  private readonly jammedSensor: Service | undefined;
+  private readonly scheduleFrom: number | undefined;
+  private readonly scheduleUntil: number | undefined;
+  private leftUnlockedTimeout: NodeJS.Timeout | undefined;
+  private unlockedSince: number | undefined;
+
+  private state = {
+    isLeftUnlocked: false,
+    isJammed: false,
+  };
+
+  constructor(
+    private readonly platform: HomebridgeTedeePlatform,
+    private readonly accessory: PlatformAccessory,
+    private readonly configuration: DeviceConfiguration,
+    private readonly name: string,
+  ) {
+    this.leftUnlockedSensor = this.getSensor('left-unlocked', `${this.name} Left Unlocked`, this.configuration.leftUnlockedSensor,
+      () => this.state.isLeftUnlocked);
+    this.jammedSensor = this.getSensor('jammed', `${this.name} Jammed`, this.configuration.jammedSensor, () => this.state.isJammed);
+
+    this.scheduleFrom = this.parseTime('leftUnlockedFrom', this.configuration.leftUnlockedFrom);
+    this.scheduleUntil = this.parseTime('leftUnlockedUntil', this.configuration.leftUnlockedUntil);
+  }
+
+  /**
+   * Updates the sensors with the state of the lock.
+   * @param isUnlocked whether HomeKit shows the lock as unlocked
+   * @param isJammed whether the lock is jammed
+   */
+  public update(isUnlocked: boolean, isJammed: boolean) {
+    if (this.jammedSensor) {
+      if (this.state.isJammed !== isJammed) {
+        this.platform.log.info(`[${this.name}] Jammed sensor ${isJammed ? 'tripped' : 'reset'}.`);
+      }
+
+      this.state.isJammed = isJammed;
+      this.updateSensor(this.jammedSensor, this.configuration.jammedSensor, isJammed);
+    }
+
+    if (!this.leftUnlockedSensor || isUnlocked === (this.unlockedSince !== undefined)) {
+      return;
+    }
+
+    if (this.leftUnlockedTimeout) {
+      clearTimeout(this.leftUnlockedTimeout);
+      this.leftUnlockedTimeout = undefined;
+    }
+
+    this.unlockedSince = isUnlocked ? Date.now() : undefined;
+    this.checkLeftUnlocked();
+  }
+
+  /**
+   * Checks whether the lock is left unlocked, and schedules the next check while the lock stays unlocked.
+   */
+  private checkLeftUnlocked() {
+    this.leftUnlockedTimeout = undefined;
+
+    const delay = this.configuration.leftUnlockedDelay * 60 * 1000;
+    const isLeftUnlocked = this.unlockedSince !== undefined &&
+      Date.now() - this.unlockedSince >= delay &&
+      this.isWithinSchedule(new Date());
+    if (this.state.isLeftUnlocked !== isLeftUnlocked) {
+      this.platform.log.info(`[${this.name}] Left unlocked sensor ${isLeftUnlocked ? 'tripped' : 'reset'}.`);
+    }
+
+    this.state.isLeftUnlocked = isLeftUnlocked;
+    this.updateSensor(this.leftUnlockedSensor, this.configuration.leftUnlockedSensor, isLeftUnlocked);
+
+    // after the delay, the check is repeated so that the sensor follows the schedule
+    if (this.unlockedSince !== undefined) {
+      const remaining = this.unlockedSince + delay - Date.now();
+      this.leftUnlockedTimeout = setTimeout(() => this.checkLeftUnlocked(), remaining > 0 ? remaining : SCHEDULE_CHECK_INTERVAL);
+    }
+  }
+
+  /**
+   * Determines whether the time is within the schedule of the left unlocked sensor. A schedule may span midnight.
+   */
+  private isWithinSchedule(date: Date): boolean {
+    if (this.scheduleFrom === undefined || this.scheduleUntil === undefined) {
+      return true;
+    }
+
+    return isWithinTimeWindow(date, this.scheduleFrom, this.scheduleUntil);
+  }
+
+  /**
+   * Parses a time of the schedule.
+   * @returns the minutes since midnight, or undefined if the time is not set or invalid
+   */
+  private parseTime(key: string, time: string | undefined): number | undefined {
+    if (!time) {
+      return undefined;
+    }
+
+    const minutes = parseTime(time);
+    if (minutes === undefined) {
+      this.platform.log.warn(`[${this.name}] Invalid ${key} ${time}, expected a time like 22:00. The schedule is ignored.`);
+    }
+
+    return minutes;
+  }
+
+  /**
+   * Gets the service, characteristic and values of a sensor type.
+   */
+  private getSensorType(type: 'contact' | 'occupancy' | 'leak' | 'motion'): SensorType {
+    switch (type) {
+      case 'contact':
+        // an open contact represents a lock that is left unlocked
+        return {
+          service: this.platform.Service.ContactSensor,
+          characteristic: this.platform.Characteristic.ContactSensorState,
+          tripped: this.platform.Characteristic.ContactSensorState.CONTACT_NOT_DETECTED,
+          normal: this.platform.Characteristic.ContactSensorState.CONTACT_DETECTED,
+        };
+      case 'occupancy':
+        return {
+          service: this.platform.Service.OccupancySensor,
+          characteristic: this.platform.Characteristic.OccupancyDetected,
+          tripped: this.platform.Characteristic.OccupancyDetected.OCCUPANCY_DETECTED,
+          normal: this.platform.Characteristic.OccupancyDetected.OCCUPANCY_NOT_DETECTED,
+        };
+      case 'leak':
+        return {
+          service: this.platform.Service.LeakSensor,
+          characteristic: this.platform.Characteristic.LeakDetected,
+          tripped: this.platform.Characteristic.LeakDetected.LEAK_DETECTED,
+          normal: this.platform.Characteristic.LeakDetected.LEAK_NOT_DETECTED,
+        };
+      case 'motion':
+        return {
+          service: this.platform.Service.MotionSensor,
+          characteristic: this.platform.Characteristic.MotionDetected,
+          tripped: true,
+          normal: false,
+        };
+    }
+  }
+
+  /**
+   * Gets the sensor service with the given subtype, using the configured sensor type.
+   * Sensors of other types are removed, e.g. after the configuration has changed.
+   * @returns the sensor, or undefined if it is disabled
+   */
+  private getSensor(subtype: string, name: string, type: DeviceConfiguration['leftUnlockedSensor' | 'jammedSensor'],
+    isTripped: () => boolean): Service | undefined {
+    const sensorType = type === 'none' ? undefined : this.getSensorType(type);
+    for (const otherType of [
+      this.platform.Service.ContactSensor,
+      this.platform.Service.OccupancySensor,
+      this.platform.Service.LeakSensor,
+      this.platform.Service.MotionSensor,
+    ]) {
+      const otherSensor = this.accessory.getServiceById(otherType, subtype);
+      if (otherSensor && otherType !== sensorType?.service) {
+        this.accessory.removeService(otherSensor);
+      }
+    }
+
+    if (!sensorType) {
+      return undefined;
+    }
+
+    const sensor = this.accessory.getServiceById(sensorType.service, subtype) ||
+      this.accessory.addService(sensorType.service, name, subtype);
+    sensor.setCharacteristic(this.platform.Characteristic.Name, name);
+
+    sensor.getCharacteristic(sensorType.characteristic)
+      .onGet(() => isTripped() ? sensorType.tripped : sensorType.normal);
+
+    return sensor;
+  }
+
+  private updateSensor(sensor: Service | undefined, type: DeviceConfiguration['leftUnlockedSensor' | 'jammedSensor'], isTripped: boolean) {
+    if (!sensor || type === 'none') {
+      return;
+    }
+
+    const sensorType = this.getSensorType(type);
+    sensor.updateCharacteristic(sensorType.characteristic, isTripped ? sensorType.tripped : sensorType.normal);
+  }
+}
@@ -1,14 +1,52 @@
 import {API, Characteristic, DynamicPlatformPlugin, Logger, PlatformAccessory, PlatformConfig, Service} from 'homebridge';
 
 import {PLATFORM_NAME, PLUGIN_NAME} from './settings';
-import {LockAccessory} from './platformAccessory';
-import {TedeeLocalApiClient} from './clients/tedee-local-api-client';
+import {BridgeConnection, describeDevice, describeLocks, WEBHOOK_SECRET_HEADER} from './bridgeConnection';
 import os from 'os';
-import {createServer, IncomingMessage, Server, ServerResponse} from 'http';
-import {WebhookPayload} from './clients/models/webhook-payload';
-import Evilscan from 'evilscan';
+import http, {createServer, IncomingMessage, Server, ServerResponse} from 'http';
+import https from 'https';
+import {BridgeConfiguration} from './configuration/bridge-configuration';
+import {isValidWebhookPayload} from './clients/validation';
+import {Lock} from './clients/models/lock';
+import {PluginStorage} from './storage/plugin-storage';
+import {EventHistory} from './storage/event-history';
+import {randomBytes, timingSafeEqual} from 'crypto';
+import path from 'path';
 import fs from 'fs';
 
+/**
+ * The maximum size of a webhook request body in bytes.
+ */
+const WEBHOOK_MAX_BODY_SIZE = 16 * 1024;
+
+/**
+ * The path under which the webhook server answers the self-test request.
+ */
+const WEBHOOK_SELF_TEST_PATH = '/self-test';
+
+/**
+ * The path under which the webhook server answers history queries.
+ */
+const HISTORY_PATH = '/history';
+
+/**
+ * Encloses IPv6 addresses in brackets, so that they can be used as host of a URL.
+ */
+function formatHost(host: string): string {
+  return host.includes(':') && !host.startsWith('[') ? `[${host}]` : host;
+}
+
+/**
+ * Determines whether the URL is an absolute HTTP or HTTPS URL.
+ */
+function isHttpUrl(url: string): boolean {
+  try {
+    return ['http:', 'https:'].includes(new URL(url).protocol);
+  } catch (e) {
+    return false;
+  }
+}
+
 /**
  * HomebridgePlatform
  * This class is the main constructor for your plugin, this is where you should
@@ -21,24 +59,36 @@ export class HomebridgeTedeePlatform implements DynamicPlatformPlugin {
   // this is used to track restored cached accessories
   public readonly accessories: PlatformAccessory[] = [];
 
-  // this is used to track active locks
-  public activeLocks: LockAccessory[] = [];
+  // this is used to track the connected bridges
+  public readonly bridges: BridgeConnection[] = [];
+
+  private _server: Server<typeof IncomingMessage, typeof ServerResponse> | undefined;
+  private webhookServerStarting: Promise<string | undefined> | undefined;
+
+  // identifies this webhook server in the self-test
+  private readonly instanceId = randomBytes(16).toString('hex');
+
+  /**
+   * Contains the storage for the data the plugin persists.
+   */
+  public readonly storage: PluginStorage;
 
   /**
-   * Contains the client that is used to communicate via HTTP API.
+   * Contains the journal of the lock events and HomeKit commands.
    */
-  private _apiClient: TedeeLocalApiClient | null = null;
-  private _server: Server<typeof IncomingMessage, typeof ServerResponse> | undefined
-  private callbackId: number | undefined;
+  public readonly history: EventHistory;
 
   /**
-   * Gets the client that is used to communicate via HTTP API.
+   * Gets the secret that authenticates the webhook requests of the bridge. It is generated once per installation.
    */
-  public get apiClient(): TedeeLocalApiClient {
-    if (!this._apiClient) {
-      throw new Error('Platform not initialized yet.');
+  public get webhookSecret(): string {
+    let secret = this.storage.get('webhookSecret');
+    if (!secret) {
+      secret = randomBytes(32).toString('hex');
+      this.storage.set('webhookSecret', secret);
     }
-    return this._apiClient;
+
+    return secret;
   }
 
   public get server(): Server<typeof IncomingMessage, typeof ServerResponse> {
@@ -56,7 +106,39 @@ export class HomebridgeTedeePlatform implements DynamicPlatformPlugin {
   ) {
     this.config.timeout = config.timeout || 10000;
     this.config.maximumApiRetry = config.maximumApiRetry || 3;
+    this.config.retryOperations = config.retryOperations || false;
+    this.config.authMode = config.authMode || 'encrypted';
+    this.config.discoveryConcurrency = config.discoveryConcurrency || 10;
     this.config.webhookPort = config.webhookPort || 3003;
+    this.config.webhookPathPrefix = (config.webhookPathPrefix || '').replace(/^\/*/, '/').replace(/\/+$/, '');
+    this.config.pollingInterval = config.pollingInterval || 300;
+    this.config.fastPollingInterval = config.fastPollingInterval || 30;
+    this.config.webhookSilenceTimeout = config.webhookSilenceTimeout || 900;
+    this.config.pollingOnly = config.pollingOnly || false;
+    if (config.webhookUrl && !isHttpUrl(config.webhookUrl)) {
+      this.log.error(`Invalid webhookUrl ${config.webhookUrl}, expected a URL like http://192.168.1.10:3003. The locks are only polled.`);
+      this.config.pollingOnly = true;
+    }
+    this.config.callbackVerificationInterval = config.callbackVerificationInterval || 300;
+    this.config.restrictWebhookToBridge = config.restrictWebhookToBridge || false;
+    this.config.bridgeAccessory = config.bridgeAccessory || false;
+    this.config.bridgeSensorType = config.bridgeSensorType || 'contact';
+    this.config.operationTimeout = config.operationTimeout || 30;
+    this.config.commandMode = config.commandMode || 'queue';
+    this.config.historyMaxSize = config.historyMaxSize ?? 1024;
+    this.config.lowBatteryThreshold = config.lowBatteryThreshold ?? 10;
+
+    this.storage = new PluginStorage(path.join(this.api.user.storagePath(), `${PLUGIN_NAME}.json`), this.log);
+    if (config.clearBridgeAddressCache) {
+      this.log.info('Clearing cached bridge addresses. Disable clearBridgeAddressCache to keep them after the next restart.');
+      this.storage.set('bridgeAddresses', {});
+    }
+
+    this.history = new EventHistory(
+      path.join(this.api.user.storagePath(), `${PLUGIN_NAME}-history.jsonl`),
+      this.config.historyMaxSize * 1024,
+      this.log,
+    );
 
     this.log.debug('Finished initializing platform:', this.config.name);
 
@@ -71,13 +153,7 @@ export class HomebridgeTedeePlatform implements DynamicPlatformPlugin {
     // in order to ensure they weren't added to homebridge already. This event can also be used
     // to start discovery of new accessories.
     this.api.on('didFinishLaunching', () => {
-      this.discoverBridge()
-        .then((addr) => {
-          this.connectBridge(addr)
-          this.discoverDevices();
-        }, (e) => {
-          this.log.warn('Failed to discover bridge!');
-        });
+      this.startBridges();
     });
 
     this.api.on('shutdown', () => {
@@ -96,415 +172,405 @@ export class HomebridgeTedeePlatform implements DynamicPlatformPlugin {
     this.accessories.push(accessory);
   }
 
-  discoverBridge(): Promise<string> {
-    this.log.info(`Discovering tedee bridge...`);
-    return new Promise((resolve, reject) => {
-      if (this.config.bridgeIp) {
-        // Proceed with the provided IP
-        this.checkForBridgeApi(this.config.bridgeIp)
-          .then(addr => resolve(addr), () => {
-            this.autoDiscover()
-              .then(addr => resolve(addr))
-              .catch(error => {
-                this.log.warn('Failed to discover bridge. For more information see the README.');
-                this.log.debug(JSON.stringify(error));
-                reject(error);
-              });
-          });
-      } else {
-        this.autoDiscover()
-          .then(addr => resolve(addr))
-          .catch(error => {
-            this.log.warn('Failed to discover bridge. For more information see the README.');
-            this.log.debug(JSON.stringify(error));
-            reject(error);
-          });
-      }
-    });
+  /**
+   * Gets the configured bridges. Without a `bridges` array, the platform options describe a single bridge.
+   */
+  private getBridgeConfigurations(): BridgeConfiguration[] {
+    if (this.config.bridges && this.config.bridges.length > 0) {
+      return this.config.bridges.map(bridge => ({
+        ...bridge,
+        authMode: bridge.authMode || this.config.authMode,
+      }));
+    }
+
+    return [{
+      bridgeIp: this.config.bridgeIp,
+      bridgeSerialNumber: this.config.bridgeSerialNumber,
+      apiKey: this.config.apiKey,
+      authMode: this.config.authMode,
+    }];
   }
 
-  autoDiscover(): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const options = {
-        target: this.getNetworkConfiguration(),
-        port: '80',
-        status: 'O',
-        reverse: true,
-      };
-
-      const scan = new Evilscan(options);
-      const results: { ip: string, reverse: string }[] = [];
-      scan.on('result', (data: { ip: string, reverse: string }) => {
-        this.log.debug(`Found device at ${data.ip} (${data.reverse})`);
-        results.push({ip: data.ip, reverse: data.reverse});
-      });
+  /**
+   * Connects all bridges and registers their accessories.
+   * Cached accessories are only removed if every bridge could be set up, so a bridge that is offline keeps its accessories.
+   */
+  private async startBridges() {
+    if (this.config.pollingOnly) {
+      this.log.info('Polling only mode enabled, webhooks are not used.');
+    }
 
-      scan.on('error', err => {
-        this.log.debug(JSON.stringify(err));
-      });
+    let isComplete = true;
+    for (const configuration of this.getBridgeConfigurations()) {
+      if (!configuration.apiKey) {
+        this.log.error(`Bridge ${configuration.name || configuration.bridgeIp || ''} has no API key and is skipped.`);
+        isComplete = false;
+        continue;
+      }
 
-      scan.on('done', () => {
-        if (results.length === 0) {
-          reject(new Error('No bridge found in the network'));
-          return;
-        }
+      this.bridges.push(new BridgeConnection(this, configuration));
+    }
 
-        const checkNext = (results) => {
-          const next = results.shift();
-          if (next === undefined) {
-            reject(new Error('No bridge found in the network'));
-            return;
-          }
-          const nextAddr = next.reverse && next.reverse != '' ? next.reverse : next.ip;
-          this.checkForBridgeApi(nextAddr)
-            .then(
-              (addr) => resolve(addr),
-              () => {
-                checkNext(results);
-              },
-            );
-        }
-        checkNext(results);
-      });
+    const results = await Promise.all(this.bridges.map(bridge => bridge.start()));
+    if (!isComplete || results.some(uuids => uuids === undefined)) {
+      return;
+    }
 
-      scan.run();
-    });
-  }
+    for (const device of this.config.devices || []) {
+      if (!this.bridges.some(bridge => bridge.matchedDevices.has(device))) {
+        const locks = this.bridges.reduce((all, bridge) => all.concat(bridge.availableLocks), [] as Lock[]);
+        this.log.warn(`Device entry ${describeDevice(device)} does not match any lock. Available locks: ${describeLocks(locks)}`);
+      }
+    }
 
-  checkForBridgeApi(addr: string): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const testClient = new TedeeLocalApiClient(
-        addr,
-        this.config.apiKey,
-        this.config.timeout,
-        2,
-        (e) => {
-          this.log.error(e);
-          reject(e);
-        },
-        (d) => this.log.debug(d),
-      );
-
-      testClient.checkApiHealth()
-        .then(response => {
-          this.log.debug(`API Check ${response ? 'SUCCESSFUL' : 'FAILED'}: ${addr}`);
-          if (response) {
-            resolve(addr);
-          } else {
-            reject(new Error('API Check Fail! Trying next IP if available...'));
-          }
-        })
-    });
+    const validUuids = results.flat();
+    for (const accessory of this.accessories) {
+      if (!validUuids.includes(accessory.UUID)) {
+        this.log.info('Removing existing accessory from cache:', accessory.displayName);
+        this.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+      }
+    }
   }
 
-
-  getNetworkConfiguration() {
-    const interfaces = os.networkInterfaces();
-    let networkConfig = '';
-
-    // Iterate through each network interface
-    for (const iface of Object.values(interfaces)) {
-      // @ts-ignore
-      for (const config of iface) {
-        // Check if the address is IPv4 and not an internal (loopback) address
-        if (config.family === 'IPv4' && !config.internal) {
-          // Calculate the subnet mask in CIDR notation
-          const cidr = this.netmaskToCIDR(config.netmask);
-          networkConfig = `${config.address}/${cidr}`;
-          this.log.debug(`Network configuration: ${networkConfig}`);
-          return networkConfig;  // Return the first valid configuration
-        }
-      }
+  /**
+   * Starts the webhook server, if it is not running yet and webhooks are used.
+   * @returns the base URL of the webhook server, or undefined if only polling is used or the server could not be started
+   */
+  public startWebhookServer(): Promise<string | undefined> {
+    if (this.config.pollingOnly) {
+      return Promise.resolve(undefined);
     }
 
-    if (!networkConfig) {
-      this.log.debug('No suitable network interface found.');
+    if (!this.webhookServerStarting) {
+      this.webhookServerStarting = this.listen();
     }
-  }
 
-  netmaskToCIDR(netmask: string) {
-    // Convert netmask to CIDR by counting the number of set bits
-    return netmask.split('.')
-      .map(octet => parseInt(octet, 10).toString(2).replace(/0/g, '').length)
-      .reduce((cidr, numBits) => cidr + numBits, 0);
+    return this.webhookServerStarting;
   }
 
-  connectBridge(ip: string) {
-    // Initializes the client
-    this._apiClient = new TedeeLocalApiClient(
-      ip,
-      this.config.apiKey,
-      this.config.timeout,
-      this.config.maximumApiRetry,
-      (e) => this.log.error(e),
-      (d) => this.log.debug(d),
-    );
+  private async listen(): Promise<string | undefined> {
+    const listenAddress = this.config.webhookListenAddress || undefined;
+    this.log.info(`Starting webhook server on ${listenAddress ? formatHost(listenAddress) + ':' : 'port '}${this.config.webhookPort}...`);
+    try {
+      await new Promise<void>((resolve, reject) => {
+        this._server = createServer((req, res) => this.handleWebhook(req, res).catch(e => this.handleWebhookError(res, e)))
+          .once('error', reject)
+          .listen(this.config.webhookPort, listenAddress, () => resolve());
+      });
+    } catch (e) {
+      this.log.error(`Failed to start webhook server: ${(e as Error).message}. The locks are only polled.`);
+      this._server = undefined;
+      return undefined;
+    }
+    this.log.info('Webhook server started successfully!');
+
+    const webhookUrl = this.getWebhookUrl();
+    if (!webhookUrl) {
+      this.log.error('Failed to determine the IP address of Homebridge, please set webhookHost or webhookUrl. The locks are only polled.');
+      return undefined;
+    }
 
-    this.saveAddr(ip);
-    this.log.debug(`Initialized API client with IP ${ip} and API key ${this.config.apiKey}`);
+    await this.testWebhookUrl(webhookUrl);
+    return webhookUrl;
   }
 
+  /**
+   * Gets the base URL the bridge sends the webhook requests to.
+   */
+  private getWebhookUrl(): string | undefined {
+    if (this.config.webhookUrl) {
+      return this.config.webhookUrl.replace(/\/+$/, '');
+    }
+
+    const host = this.config.webhookHost || this.getHomebridgeIpAddress();
+    if (!host) {
+      return undefined;
+    }
+
+    return `http://${formatHost(host)}:${this.config.webhookPort}${this.config.webhookPathPrefix}`;
+  }
 
   /**
-   * This is an example method showing how to register discovered accessories.
-   * Accessories must only be registered once, previously created accessories
-   * must not be registered again to prevent "duplicate UUID" errors.
+   * Gets the first non-internal IPv4 address, or a non-internal IPv6 address that is not link-local if there is none.
    */
-  discoverDevices() {
-    this.apiClient.getLockList()
-      .then(locks => {
-        this.log.debug(`Found ${locks.length} locks.`);
-        this.log.debug(`Locks: ${JSON.stringify(locks)}`);
-
-        this.registerLocks(locks)
-      })
-      .catch(e => {
-        this.log.error('Failed to get locks from the API');
-        this.log.debug(JSON.stringify(e));
-        return;
-
-      })
+  private getHomebridgeIpAddress(): string | undefined {
+    const addresses: os.NetworkInterfaceInfo[] = [];
+    for (const networkInterface of Object.values(os.networkInterfaces())) {
+      addresses.push(...(networkInterface || []).filter(net => !net.internal));
+    }
+
+    const address = addresses.find(net => net.family === 'IPv4') ||
+      addresses.find(net => net.family === 'IPv6' && !/^fe80:/i.test(net.address));
+    return address?.address;
   }
 
-  registerLocks(locks) {
-    // loop over the discovered devices and register each one if it has not already been registered
-    let hasLocks = false;
-
-    const validUuids: string[] = [];
-
-    for (const lock of locks) {
-      let deviceConfiguration = this.config.devices.find(l => l.name === lock.name);
-      if (!deviceConfiguration) {
-        deviceConfiguration = {
-          name: lock.name,
-          ignored: false,
-          unlatchFromUnlockedToUnlocked: true,
-          unlatchLock: false,
-          disableUnlock: false,
-          defaultLockName: lock.name,
-          defaultLatchName: lock.name + ' Latch',
-        }
-      }
+  /**
+   * Checks that the webhook URL reaches this webhook server and logs a diagnostic if it does not.
+   * The request is sent from Homebridge, so it cannot detect a firewall that only blocks the bridge.
+   */
+  private async testWebhookUrl(webhookUrl: string) {
+    const host = new URL(webhookUrl).hostname.replace(/^\[|\]$/g, '');
+    if (host === 'localhost' || host === '::1' || host.startsWith('127.')) {
+      this.log.warn(`Webhook URL ${webhookUrl} can only be reached from this host, not from the bridge. ` +
+        'Please set webhookHost or webhookUrl.');
+    } else if (!this.config.webhookUrl && !this.config.webhookHost && fs.existsSync('/.dockerenv')) {
+      this.log.warn(`Homebridge runs in a Docker container, the bridge may not reach the detected address ${host}. ` +
+        'Please use host networking or set webhookHost or webhookUrl.');
+    }
 
-      // generate a unique id for the accessory this should be generated from
-      // something globally unique, but constant, for example, the device serial
-      // number or MAC address
-      const uuid = this.api.hap.uuid.generate(lock.serialNumber);
-      validUuids.push(uuid);
-
-      // see if an accessory with the same uuid has already been registered and restored from
-      // the cached devices we stored in the `configureAccessory` method above
-      const existingAccessory = this.accessories.find(accessory => accessory.UUID === uuid);
-
-      if (existingAccessory) {
-        // the accessory already exists
-        this.log.info('Restoring existing accessory from cache:', existingAccessory.displayName);
-
-        // if you need to update the accessory.context then you should run `api.updatePlatformAccessories`. e.g.:
-        existingAccessory.context.device = lock;
-        this.api.updatePlatformAccessories([existingAccessory]);
-
-        // create the accessory handler for the restored accessory
-        // this is imported from `platformAccessory.ts`
-        const lockAccessory = new LockAccessory(this, existingAccessory);
-
-        // it is possible to remove platform accessories at any time using `api.unregisterPlatformAccessories`, e.g.:
-        // remove platform accessories when no longer present
-        if (deviceConfiguration.ignored) {
-          this.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [existingAccessory]);
-          this.log.info('Removing existing accessory from cache:', existingAccessory.displayName);
-        } else {
-          hasLocks = true;
-          this.activeLocks.push(lockAccessory);
-        }
+    try {
+      const [status, body] = await this.get(webhookUrl + WEBHOOK_SELF_TEST_PATH);
+      if (body === this.instanceId) {
+        this.log.info(`Webhook self-test passed, ${webhookUrl} reaches the webhook server.`);
       } else {
-        if (deviceConfiguration.ignored) {
-          continue;
-        }
+        this.log.warn(`Webhook self-test failed, ${webhookUrl} is answered by another server (HTTP ${status}). ` +
+          'The bridge will not be able to deliver events, please check webhookUrl, webhookPathPrefix and your reverse proxy.');
+      }
+    } catch (e) {
+      const code = (e as NodeJS.ErrnoException).code || (e as Error).message;
+      this.log.warn(`Webhook self-test failed, ${webhookUrl} is not reachable (${code}). ` +
+        'The bridge will not be able to deliver events, please check webhookHost, webhookUrl and your firewall.');
+    }
+  }
 
-        // the accessory does not yet exist, so we need to create it
-        this.log.info('Adding new accessory:', lock.name);
+  /**
+   * Sends a GET request, the URL may use HTTP or HTTPS and contain an IPv6 address.
+   * @returns the status code and the body of the response
+   */
+  private get(url: string): Promise<[number, string]> {
+    return new Promise((resolve, reject) => {
+      const req = (url.startsWith('https:') ? https : http).get(url, {timeout: this.config.timeout}, res => {
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk: Buffer) => chunks.push(chunk));
+        res.on('end', () => resolve([res.statusCode || 0, Buffer.concat(chunks).toString('utf8')]));
+        res.on('error', reject);
+      });
+      req.on('timeout', () => req.destroy(Object.assign(new Error('timeout'), {code: 'ETIMEDOUT'})));
+      req.on('error', reject);
+      req.on('aborted', () => reject(new Error('Request aborted')));
+    });
+  }
 
-        // create a new accessory
-        const accessory = new this.api.platformAccessory(lock.name, uuid);
+  public async handleWebhook(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const requestPath = this.getRequestPath(req);
+    if (req.method === 'GET' && requestPath === WEBHOOK_SELF_TEST_PATH) {
+      res.end(this.instanceId);
+      return;
+    }
 
-        // store a copy of the device object in the `accessory.context`
-        // the `context` property can be used to store any data about the accessory you may need
-        accessory.context.device = lock;
+    if (req.method === 'GET' && requestPath === HISTORY_PATH) {
+      this.handleHistoryRequest(req, res);
+      return;
+    }
 
-        // create the accessory handler for the newly create accessory
-        // this is imported from `platformAccessory.ts`
-        const lockAccessory = new LockAccessory(this, accessory);
+    if (req.method !== 'POST') {
+      res.statusCode = 405;
+      res.end('Method not allowed');
+      return;
+    }
 
-        // link the accessory to your platform
-        this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+    const bridge = this.findWebhookBridge(req, requestPath);
+    if (!bridge) {
+      this.log.warn(`Webhook: Rejected request for unknown bridge ${req.url}`);
+      res.statusCode = 404;
+      res.end('Bridge not found');
+      return;
+    }
 
-        this.activeLocks.push(lockAccessory);
+    if (!this.isAuthorizedWebhook(req, bridge)) {
+      this.log.warn(`Webhook: Rejected unauthorized request from ${req.socket.remoteAddress}`);
+      res.statusCode = 401;
+      res.end('Unauthorized');
+      return;
+    }
 
-        hasLocks = true;
-      }
+    // Parse the incoming request
+    let body: string | null;
+    try {
+      body = await this.readWebhookBody(req);
+    } catch (e) {
+      this.log.warn(`Webhook: Failed to read the request body: ${(e as Error).message}`);
+      this.endWebhookResponse(res, 400, 'Bad request');
+      return;
     }
 
-    for (const accessory of this.accessories) {
-      if (!validUuids.includes(accessory.UUID)) {
-        this.log.info('Removing existing accessory from cache:', accessory.displayName);
-        this.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
-      }
+    if (body === null) {
+      this.log.warn('Webhook: Rejected request with a body larger than ' + WEBHOOK_MAX_BODY_SIZE + ' bytes');
+      res.statusCode = 413;
+      res.setHeader('Connection', 'close');
+      res.end('Payload too large');
+      return;
     }
 
-    if (!hasLocks) {
+    let payload: unknown;
+    try {
+      payload = JSON.parse(body);
+    } catch (e) {
+      this.log.warn('Webhook: Rejected request with malformed JSON');
+      res.statusCode = 400;
+      res.end('Malformed JSON');
       return;
     }
 
-    this.log.info(`Starting webhook server on port ${this.config.webhookPort}...`);
-    this._server = createServer((req, res) => this.handleWebhook(req, res))
-      .listen(this.config.webhookPort);
-    this.log.info(`Webhook server started successfully!`);
-
-    this.log.info(`Registering webhook callback...`);
-    const webhookUrl = `http://${this.getHomebridgeIpAddress()}:${this.config.webhookPort}/`;
-    this.log.debug(`Webhook URL: ${webhookUrl}`);
-
-    this.apiClient.setMultipleCallbacks([{
-      url: webhookUrl,
-      method: 'POST',
-      headers: [],
-    }]).then(callback => {
-      this.log.debug(`Callback response: ${JSON.stringify(callback)}`);
-      this.log.info(`Webhook callback registered successfully!`);
-      this.log.debug(`Callback ID: ${callback[0]}`);
-      this.callbackId = callback[0];
-    }).catch(e => {
-      this.log.error('Failed to register webhook callback');
-      this.log.debug(JSON.stringify(e));
+    if (!isValidWebhookPayload(payload)) {
+      this.log.warn('Webhook: Rejected request with invalid payload');
+      this.log.debug(`Webhook payload: ${body}`);
+      res.statusCode = 400;
+      res.end('Invalid payload');
       return;
-    });
+    }
+
+    const [statusCode, message] = await bridge.handleWebhookEvent(payload);
+    res.statusCode = statusCode;
+    res.end(message);
   }
 
-  private getHomebridgeIpAddress() {
-    const networkInterfaces = os.networkInterfaces();
-    for (const name of Object.keys(networkInterfaces)) {
-      // @ts-ignore
-      for (const net of networkInterfaces[name]) {
-        // Skip over non-IPv4 and internal (i.e. 127.0.0.1) addresses
-        if (net.family === 'IPv4' && !net.internal) {
-          return net.address;
-        }
-      }
+  /**
+   * Handles an unexpected error of a webhook request, so that the request is not left without a response.
+   */
+  private handleWebhookError(res: ServerResponse, e: unknown) {
+    this.log.error(`Webhook: Failed to handle request: ${(e as Error).message}`);
+    this.log.debug(JSON.stringify(e));
+    this.endWebhookResponse(res, 500, 'Internal server error');
+  }
+
+  /**
+   * Ends the response with the status code, unless a response was already sent.
+   */
+  private endWebhookResponse(res: ServerResponse, statusCode: number, message: string) {
+    if (res.headersSent) {
+      res.end();
+      return;
     }
-    return null;
+
+    res.statusCode = statusCode;
+    res.end(message);
   }
 
-  saveAddr(addr) {
-    fs.readFile(this.api.user.configPath(), 'utf8', (err, data) => {
-      if (err) {
-        this.log.debug('Failed to read config file:', err);
-        return;
-      }
-      // Parse the current configuration
-      let config = JSON.parse(data);
-
-      // Find the platform with "platform" key equals "TedeeBridge"
-      let targetPlatform = config.platforms.find(p => p.platform === PLATFORM_NAME);
-      if (targetPlatform) {
-        targetPlatform.bridgeIp = addr;
-        this.log.debug('Updated config with new IP:', targetPlatform.bridgeIp);
-      } else {
-        this.log.debug('No matching platform found.');
-        return;
-      }
+  /**
+   * Finds the bridge a webhook request belongs to, by the path of its callback URL or by the address of the bridge.
+   */
+  private findWebhookBridge(req: IncomingMessage, requestPath: string): BridgeConnection | undefined {
+    const bridge = this.bridges.find(b => b.serialNumber && b.webhookPath === requestPath);
+    if (bridge) {
+      return bridge;
+    }
 
-      // Write the modified configuration back to the file
-      fs.writeFile(this.api.user.configPath(), JSON.stringify(config, null, 4), (err) => {
-        if (err) {
-          this.log.debug('Failed to write updated config file:', err);
-        } else {
-          this.log.debug('Configuration updated successfully!');
-        }
-      });
-    });
+    // IPv4 addresses may be reported as IPv4-mapped IPv6 addresses
+    const remoteAddress = (req.socket.remoteAddress || '').replace(/^::ffff:/, '');
+    const bridges = this.bridges.filter(b => b.bridgeAddress === remoteAddress);
+    if (bridges.length === 1) {
+      return bridges[0];
+    }
+
+    // callbacks registered by previous versions use the root path
+    return this.bridges.length === 1 && requestPath === '' ? this.bridges[0] : undefined;
   }
 
-  public async handleWebhook(req: IncomingMessage, res: ServerResponse): Promise<void> {
-    // Parse the incoming request
-    let body = '';
-    for await (const chunk of req) {
-      body += chunk;
+  /**
+   * Gets the path of the request without query, path prefix and trailing slashes.
+   * Requests without the path prefix are accepted too, as reverse proxies may strip it.
+   */
+  private getRequestPath(req: IncomingMessage): string {
+    let requestPath = (req.url || '/').split('?')[0];
+    const prefix = this.config.webhookPathPrefix;
+    if (prefix && (requestPath === prefix || requestPath.startsWith(prefix + '/'))) {
+      requestPath = requestPath.substring(prefix.length);
     }
 
-    const payload: WebhookPayload = JSON.parse(body);
-    if (payload.event == 'backend-connection-changed' || payload.event == 'device-connection-changed') {
-      if (payload.event == 'backend-connection-changed') {
-        // @ts-ignore
-        this.log.info('Webhook: Backend ' + (payload.data.isConnected ? 'connected' : 'disconnected'));
-      } else {
-        // @ts-ignore
-        this.log.info('Webhook: Device with id ' + payload.data.deviceId + ' ' + (payload.data.isConnected ? 'connected' : 'disconnected'));
+    return requestPath.replace(/\/+$/, '');
+  }
 
+  /**
+   * Checks the secret header of a webhook request and, if enabled, that the request originates from the bridge.
+   */
+  private isAuthorizedWebhook(req: IncomingMessage, bridge: BridgeConnection): boolean {
+    if (this.config.restrictWebhookToBridge) {
+      // IPv4 addresses may be reported as IPv4-mapped IPv6 addresses
+      const remoteAddress = (req.socket.remoteAddress || '').replace(/^::ffff:/, '');
+      if (remoteAddress !== bridge.bridgeAddress) {
+        return false;
       }
-      res.statusCode = 200;
-      res.end('Nevermind ;)');
-      return;
     }
 
-    // @ts-ignore
-    const data: DeviceBatteryLevelChangedEvent | LockStatusChangedEvent | CommonDeviceEvent = payload.data;
+    return this.hasValidSecret(req);
+  }
 
-    // Identify the lock that needs to be updated
-    const lock: LockAccessory | undefined = this.activeLocks.find(lock => lock.accessory.context.device.id === data.deviceId);
-    if (!lock) {
-      this.log.warn('Webhook: Device not found with id ' + data.deviceId);
+  /**
+   * Checks that the request carries the webhook secret.
+   */
+  private hasValidSecret(req: IncomingMessage): boolean {
+    const secret = req.headers[WEBHOOK_SECRET_HEADER];
+    if (typeof secret !== 'string') {
+      return false;
+    }
+
+    const expected = Buffer.from(this.webhookSecret);
+    const actual = Buffer.from(secret);
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  }
+
+  /**
+   * Answers a query of the event history, the request must carry the webhook secret.
+   */
+  private handleHistoryRequest(req: IncomingMessage, res: ServerResponse) {
+    if (!this.hasValidSecret(req)) {
+      this.log.warn(`History: Rejected unauthorized request from ${req.socket.remoteAddress}`);
+      res.statusCode = 401;
+      res.end('Unauthorized');
+      return;
+    }
+
+    if (!this.history.isEnabled) {
       res.statusCode = 404;
-      res.end('Lock not found');
+      res.end('History disabled');
       return;
     }
 
-    switch (payload.event) {
-      case 'device-settings-changed':
-        this.log.info('Webhook: Device settings changed for device with id ' + data.deviceId);
-        await lock.updateAsync();
-        break;
-      case 'device-battery-fully-charged':
-        this.log.info('Webhook: Battery fully charged for device with id ' + data.deviceId);
-        lock.updateBattery(100);
-        lock.updateCharging(0);
-        break;
-      case 'device-battery-start-charging':
-        this.log.info('Webhook: Battery started charging for device with id ' + data.deviceId);
-        lock.updateCharging(1);
-        break;
-      case 'device-battery-level-changed':
-        this.log.info('Webhook: Battery level changed for device with id ' + data.deviceId);
-        // @ts-ignore
-        lock.updateBattery(data.batteryLevel);
-        break;
-      case 'lock-status-changed':
-        this.log.info('Webhook: Lock status changed for device with id ' + data.deviceId);
-        // @ts-ignore
-        lock.updateState(data.state, data.jammed);
-        break;
-      default:
-        this.log.warn('Webhook: Unknown event type ' + payload.event);
-        res.statusCode = 400;
-        res.end('Unknown event type');
-        return;
-    }
-
-    res.statusCode = 200;
-    res.end('Lock updated successfully');
+    const params = new URL(req.url || '/', 'http://localhost').searchParams;
+    const deviceId = params.get('deviceId') ? Number(params.get('deviceId')) : undefined;
+    const sinceParam = params.get('since');
+
+    // since accepts milliseconds since the epoch or a date string
+    const since = sinceParam ? (/^\d+$/.test(sinceParam) ? Number(sinceParam) : Date.parse(sinceParam)) : undefined;
+    if ((deviceId !== undefined && !Number.isInteger(deviceId)) || (since !== undefined && isNaN(since))) {
+      res.statusCode = 400;
+      res.end('Invalid deviceId or since');
+      return;
+    }
+
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify(this.history.query({deviceId, since})));
+  }
+
+  /**
+   * Reads the body of a webhook request.
+   * @returns the body, or null if it exceeds the size limit.
+   */
+  private readWebhookBody(req: IncomingMessage): Promise<string | null> {
+    if (Number(req.headers['content-length']) > WEBHOOK_MAX_BODY_SIZE) {
+      return Promise.resolve(null);
+    }
+
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+
+      req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size <= WEBHOOK_MAX_BODY_SIZE) {
+          chunks.push(chunk);
+        }
+      });
+      req.on('end', () => resolve(size <= WEBHOOK_MAX_BODY_SIZE ? Buffer.concat(chunks).toString('utf8') : null));
+      req.on('error', reject);
+      req.on('aborted', () => reject(new Error('Request aborted')));
+    });
   }
 
   shutdown() {
-    if (this.callbackId) {
-      this.log.info(`Deleting webhook callback...`);
-      this.apiClient.deleteCallback(this.callbackId)
-        .then(() => {
-          this.log.debug('Webhook callback deleted successfully!');
-        })
-        .catch(e => {
-          this.log.error('Failed to delete webhook callback');
-          this.log.debug(JSON.stringify(e));
-        });
+    for (const bridge of this.bridges) {
+      bridge.shutdown();
     }
 
     // Close the server
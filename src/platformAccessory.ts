@@ -1,8 +1,53 @@
-import {CharacteristicValue, PlatformAccessory, Service} from 'homebridge';
+import {CharacteristicValue, HapStatusError, PlatformAccessory, Service} from 'homebridge';
 
 import {HomebridgeTedeePlatform} from './platform';
+import {TedeeLocalApiClient} from './clients/tedee-local-api-client';
 import {Lock} from './clients/models/lock';
 import {LockState} from './clients/models/lock-state';
+import {DeviceConfiguration, DeviceSettingSwitch} from './configuration/device-configuration';
+import {UnlockMode} from './clients/models/unlock-mode';
+import {DeviceSettings} from './clients/models/device-settings';
+import {LockOperationQueue, LockOperationType} from './lockOperationQueue';
+import {TedeeAuthenticationError, TedeeBridgeBusyError, TedeeDeviceNotFoundError, TedeeTimeoutError} from './clients/errors';
+import {HistorySource, HistoryState} from './storage/history-entry';
+import {EveHistory} from './eveHistory';
+import {LockSensors} from './lockSensors';
+import {isWithinTimeWindow, parseTime} from './timeWindow';
+
+/**
+ * The device settings that can be exposed as switches, with the name of the switch.
+ */
+const SETTING_SWITCHES: Record<DeviceSettingSwitch, { setting: keyof DeviceSettings; name: string }> = {
+  autoLock: {setting: 'autoLockEnabled', name: 'Auto Lock'},
+  pullSpring: {setting: 'pullSpringEnabled', name: 'Pull Spring'},
+  postponedLock: {setting: 'postponedLockEnabled', name: 'Postponed Lock'},
+  buttonLock: {setting: 'buttonLockEnabled', name: 'Button Lock'},
+  buttonUnlock: {setting: 'buttonUnlockEnabled', name: 'Button Unlock'},
+};
+
+/**
+ * The state the lock reaches with each operation, recorded as target state in the event history.
+ */
+const OPERATION_TARGET_STATES: Record<LockOperationType, LockState> = {
+  lock: 6,
+  unlock: 2,
+  unlatch: 7,
+};
+
+/**
+ * The battery level in percent by which the battery has to rise above the threshold before it is reported as normal again.
+ */
+const LOW_BATTERY_HYSTERESIS = 5;
+
+/**
+ * The battery level that the lock reports if it does not know the level.
+ */
+const UNKNOWN_BATTERY_LEVEL = 255;
+
+/**
+ * The minimum time in milliseconds between two battery samples of the Eve history.
+ */
+const BATTERY_SAMPLE_INTERVAL = 60 * 60 * 1000;
 
 /**
  * Platform Accessory
@@ -11,7 +56,18 @@ import {LockState} from './clients/models/lock-state';
  */
 export class LockAccessory {
   private service: Service;
+  private latch: Service | undefined;
   private battery: Service;
+  private settingSwitches: Array<{ service: Service; setting: keyof DeviceSettings }> = [];
+  private postponedLock: Service | undefined;
+  private postponedLockTimeout: NodeJS.Timeout | undefined;
+  private eveHistory: EveHistory | undefined;
+  private lastBatterySample: number | undefined;
+  private sensors: LockSensors;
+  private autoRelockPause: Service | undefined;
+  private autoRelockTimeout: NodeJS.Timeout | undefined;
+  private autoRelockWindows: Array<[number, number]> = [];
+  private operations: LockOperationQueue;
   private readonly id: number;
   private readonly name: string;
 
@@ -20,16 +76,25 @@ export class LockAccessory {
    * You should implement your own code to track the state of your accessory
    */
   private state = {
-    isOperating: false,
+    operationStartState: 9,
+    hasMoved: false,
+    isUnlatching: false,
     isJammed: false,
     state: 9,
     batteryLevel: 100,
+    isBatteryLow: false,
+    isBatteryLevelUnknown: false,
     isCharging: false,
+    isConnected: true,
+    isOpenedViaHomeKit: false,
   };
 
   constructor(
     private readonly platform: HomebridgeTedeePlatform,
     readonly accessory: PlatformAccessory,
+    private readonly configuration: DeviceConfiguration,
+    private readonly apiClient: TedeeLocalApiClient,
+    private readonly bridgeSerialNumber: string | undefined,
   ) {
     this.id = accessory.context.device.id;
     this.name = accessory.context.device.name;
@@ -44,7 +109,14 @@ export class LockAccessory {
 
     this.state.isJammed = this.accessory.context.device.jammed == 1 || this.accessory.context.device.state == 0 || this.accessory.context.device.state == 1;
     this.state.state = this.accessory.context.device.state;
-    this.state.isOperating = !(this.state.state == 0 || this.state.state == 2 || this.state.state == 3 || this.state.state == 6 || this.state.state == 9);
+
+    this.operations = new LockOperationQueue(
+      this.name,
+      this.platform.log,
+      this.platform.config.operationTimeout * 1000,
+      this.platform.config.commandMode === 'latestWins',
+      () => this.updateAsync(),
+    );
 
     // get the LockMechanism service if it exists, otherwise create a new LockMechanism service
     this.service = this.accessory.getService(this.platform.Service.LockMechanism) || this.accessory.addService(this.platform.Service.LockMechanism);
@@ -52,14 +124,41 @@ export class LockAccessory {
     this.service.setCharacteristic(this.platform.Characteristic.Name, this.name);
 
     this.service.getCharacteristic(this.platform.Characteristic.LockCurrentState)
-      .onGet(this.handleLockCurrentStateGet.bind(this));
+      .onGet(this.connected(this.handleLockCurrentStateGet));
 
     this.service.getCharacteristic(this.platform.Characteristic.LockTargetState)
-      .onGet(this.handleLockTargetStateGet.bind(this))
+      .onGet(this.connected(this.handleLockTargetStateGet))
       .onSet(this.handleLockTargetStateSet.bind(this));
 
-    this.state.batteryLevel = this.accessory.context.device.batteryLevel;
+    if (this.configuration.eveHistory) {
+      this.eveHistory = new EveHistory(this.platform, this.accessory, this.service);
+      this.eveHistory.recordState(this.state.state as LockState);
+    } else {
+      EveHistory.remove(this.accessory, this.service);
+    }
+
+    // the latch is exposed as a second LockMechanism service, identified by its subtype
+    const latch = this.accessory.getServiceById(this.platform.Service.LockMechanism, 'latch');
+    if (this.configuration.unlatchLock) {
+      this.latch = latch || this.accessory.addService(this.platform.Service.LockMechanism, this.configuration.defaultLatchName, 'latch');
+
+      this.latch.setCharacteristic(this.platform.Characteristic.Name, this.configuration.defaultLatchName);
+
+      this.latch.getCharacteristic(this.platform.Characteristic.LockCurrentState)
+        .onGet(this.connected(this.handleLatchCurrentStateGet));
+
+      this.latch.getCharacteristic(this.platform.Characteristic.LockTargetState)
+        .onGet(this.connected(this.handleLatchTargetStateGet))
+        .onSet(this.handleLatchTargetStateSet.bind(this));
+    } else if (latch) {
+      this.accessory.removeService(latch);
+    }
+
+    // the last known battery level is kept in the context, as the lock may not know its level after a restart
+    this.state.batteryLevel = this.accessory.context.batteryLevel ?? this.state.batteryLevel;
+    this.setBatteryLevel(this.accessory.context.device.batteryLevel);
     this.state.isCharging = this.accessory.context.device.isCharging == 1;
+    this.state.isConnected = this.accessory.context.device.isConnected !== 0;
 
     this.battery = this.accessory.getService(this.platform.Service.Battery) || this.accessory.addService(this.platform.Service.Battery);
     this.battery.getCharacteristic(this.platform.Characteristic.StatusLowBattery)
@@ -68,47 +167,487 @@ export class LockAccessory {
       .onGet(this.handleStatusBatteryLevelGet.bind(this));
     this.battery.getCharacteristic(this.platform.Characteristic.ChargingState)
       .onGet(this.handleStatusChargingStateGet.bind(this));
+
+    // the exposed device settings are read-only switches, identified by their subtype
+    for (const [key, settingSwitch] of Object.entries(SETTING_SWITCHES)) {
+      const subtype = `setting-${key}`;
+      const existingSwitch = this.accessory.getServiceById(this.platform.Service.Switch, subtype);
+      if (!(this.configuration.settingSwitches || []).includes(key as DeviceSettingSwitch)) {
+        if (existingSwitch) {
+          this.accessory.removeService(existingSwitch);
+        }
+        continue;
+      }
+
+      const name = `${this.name} ${settingSwitch.name}`;
+      const service = existingSwitch || this.accessory.addService(this.platform.Service.Switch, name, subtype);
+      service.setCharacteristic(this.platform.Characteristic.Name, name);
+      service.getCharacteristic(this.platform.Characteristic.On)
+        .setProps({perms: [this.platform.api.hap.Perms.PAIRED_READ, this.platform.api.hap.Perms.NOTIFY]})
+        .onGet(() => this.handleSettingGet(settingSwitch.setting));
+
+      this.settingSwitches.push({service, setting: settingSwitch.setting});
+    }
+
+    // the postponed lock is a stateful switch that locks the lock after a delay
+    const postponedLock = this.accessory.getServiceById(this.platform.Service.Switch, 'postponed-lock');
+    if (this.configuration.postponedLockSwitch) {
+      const name = `${this.name} Timed Lock`;
+      this.postponedLock = postponedLock || this.accessory.addService(this.platform.Service.Switch, name, 'postponed-lock');
+      this.postponedLock.setCharacteristic(this.platform.Characteristic.Name, name);
+
+      this.postponedLock.getCharacteristic(this.platform.Characteristic.On)
+        .onGet(this.handlePostponedLockGet.bind(this))
+        .onSet(this.handlePostponedLockSet.bind(this));
+
+      this.postponedLock.addOptionalCharacteristic(this.platform.Characteristic.RemainingDuration);
+      this.postponedLock.getCharacteristic(this.platform.Characteristic.RemainingDuration)
+        .setProps({maxValue: this.configuration.postponedLockDelay})
+        .onGet(this.handleRemainingDurationGet.bind(this));
+
+      // resumes a postponed lock that was pending before Homebridge restarted
+      if (typeof this.accessory.context.postponedLockAt === 'number') {
+        this.schedulePostponedLock(this.accessory.context.postponedLockAt);
+      }
+    } else {
+      if (postponedLock) {
+        this.accessory.removeService(postponedLock);
+      }
+      delete this.accessory.context.postponedLockAt;
+    }
+
+    // the pause switch of the automatic re-lock keeps its state in the context, so it survives a restart
+    const autoRelockPause = this.accessory.getServiceById(this.platform.Service.Switch, 'auto-relock-pause');
+    if (this.configuration.autoRelock && this.configuration.autoRelockPauseSwitch) {
+      const name = `${this.name} Auto Re-Lock Paused`;
+      this.autoRelockPause = autoRelockPause || this.accessory.addService(this.platform.Service.Switch, name, 'auto-relock-pause');
+      this.autoRelockPause.setCharacteristic(this.platform.Characteristic.Name, name);
+
+      this.autoRelockPause.getCharacteristic(this.platform.Characteristic.On)
+        .onGet(this.handleAutoRelockPauseGet.bind(this))
+        .onSet(this.handleAutoRelockPauseSet.bind(this));
+    } else {
+      if (autoRelockPause) {
+        this.accessory.removeService(autoRelockPause);
+      }
+      delete this.accessory.context.autoRelockPaused;
+    }
+
+    for (const window of this.configuration.autoRelockWindows || []) {
+      const from = parseTime(window.from);
+      const until = parseTime(window.until);
+      if (from === undefined || until === undefined) {
+        this.platform.log.warn(`[${this.name}] Invalid auto re-lock window ${window.from} - ${window.until}, expected times like 22:00.`);
+        continue;
+      }
+      this.autoRelockWindows.push([from, until]);
+    }
+
+    // StatusFault is not part of the LockMechanism and Battery services, it is added to show the connectivity of the lock
+    for (const service of [this.service, this.latch, this.battery]) {
+      if (service) {
+        service.addOptionalCharacteristic(this.platform.Characteristic.StatusFault);
+        service.getCharacteristic(this.platform.Characteristic.StatusFault)
+          .onGet(this.handleStatusFaultGet.bind(this));
+      }
+    }
+
+    this.battery.getCharacteristic(this.platform.Characteristic.StatusFault)
+      .onGet(this.handleBatteryStatusFaultGet.bind(this));
+
+    this.sensors = new LockSensors(this.platform, this.accessory, this.configuration, this.name);
+    this.updateSensors();
+  }
+
+  /**
+   * Wraps a characteristic get handler, so that it fails while the lock is disconnected from the bridge.
+   */
+  private connected(handler: () => CharacteristicValue): () => CharacteristicValue {
+    return () => {
+      this.assertConnected();
+      return handler.call(this);
+    };
+  }
+
+  /**
+   * Throws if the lock is disconnected from the bridge.
+   */
+  private assertConnected() {
+    if (!this.state.isConnected) {
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    }
   }
 
   /**
    * Handle requests to set the "Lock Target State" characteristic
    */
   async handleLockTargetStateSet(newValue: CharacteristicValue) {
-    if (this.state.isOperating) {
-      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.RESOURCE_BUSY);
-    }
+    this.assertConnected();
 
     if (newValue === this.platform.Characteristic.LockTargetState.UNSECURED) {
-      // Sends the open command to the API
-      this.platform.log.info(`[${this.name}] Open via HomeKit requested.`);
-      this.state.isOperating = true;
+      this.assertUnlockAllowed();
+      await this.runOperation('unlock', () => this.unlock());
+    } else if (newValue === this.platform.Characteristic.LockTargetState.SECURED) {
+      await this.runOperation('lock', () => this.lock());
+    } else {
+      this.platform.log.warn(`[${this.name}] Invalid Operation requested.`);
+      this.platform.log.debug(`[${this.name}] Invalid LockTargetState requested: ${newValue}.`);
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.INVALID_VALUE_IN_REQUEST);
+    }
+  }
+
+
+  /**
+   * Handle requests to set the "Lock Target State" characteristic of the latch
+   */
+  async handleLatchTargetStateSet(newValue: CharacteristicValue) {
+    if (newValue === this.platform.Characteristic.LockTargetState.SECURED) {
+      // The latch springs back by itself, so there is nothing to send to the API
+      return;
+    }
+
+    if (newValue !== this.platform.Characteristic.LockTargetState.UNSECURED) {
+      this.platform.log.warn(`[${this.name}] Invalid Operation requested.`);
+      this.platform.log.debug(`[${this.name}] Invalid latch LockTargetState requested: ${newValue}.`);
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.INVALID_VALUE_IN_REQUEST);
+    }
+
+    this.assertConnected();
+    this.assertUnlockAllowed();
+    await this.runOperation('unlatch', () => this.unlatch());
+  }
 
+  /**
+   * Adds an operation to the queue of the lock.
+   * If the lock is idle, the operation is sent right away and failures are reported to HomeKit.
+   * Otherwise the operation waits for the operation in flight and HomeKit is not kept waiting.
+   * @param source the origin of the operation, a command from HomeKit or the plugin itself
+   */
+  private async runOperation(type: LockOperationType, execute: () => Promise<boolean>, source: HistorySource = 'homekit') {
+    // a new command replaces a pending automatic re-lock
+    this.cancelAutoRelock();
+
+    const isBusy = this.operations.isBusy;
+    const sent = this.operations.enqueue(type, async () => {
+      this.state.operationStartState = this.state.state;
+      this.state.hasMoved = false;
+
+      let isMoving: boolean;
       try {
-        await this.platform.apiClient.unlockDevice(this.id);
+        isMoving = await execute();
       } catch (e) {
-        this.state.isOperating = false;
-        this.platform.log.warn(`[${this.name}] Failed to open via HomeKit`);
-        throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+        this.recordOperation(type, source, e instanceof Error ? e.message : String(e));
+        throw e;
       }
-    } else if (newValue === this.platform.Characteristic.LockTargetState.SECURED) {
-      // Sends the close command to the API
-      this.platform.log.info(`[${this.name}] Close via HomeKit requested.`);
-      this.state.isOperating = true;
 
-      try {
-        await this.platform.apiClient.lockDevice(this.id);
-      } catch (e) {
-        this.state.isOperating = false;
-        this.platform.log.warn(`[${this.name}] Failed to close via HomeKit`);
-        throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+      // only an opening that the bridge accepted counts as opening via HomeKit
+      if (source === 'homekit') {
+        this.state.isOpenedViaHomeKit = type !== 'lock';
       }
-    } else {
-      this.platform.log.warn(`[${this.name}] Invalid Operation requested.`);
-      this.platform.log.debug(`[${this.name}] Invalid LockTargetState requested: ${newValue}.`)
-      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.INVALID_VALUE_IN_REQUEST);
+
+      this.recordOperation(type, source);
+      return isMoving;
+    });
+
+    if (!isBusy) {
+      await sent;
+      return;
+    }
+
+    this.platform.log.debug(`[${this.name}] Lock is busy, operation ${type} is queued.`);
+    sent.catch(() => {
+      // the failure is already logged by the operation
+    });
+  }
+
+  /**
+   * Records an operation in the event history once the bridge accepted or rejected it.
+   * @param error the reason why the operation failed, if it did
+   */
+  private recordOperation(type: LockOperationType, source: HistorySource, error?: string) {
+    this.platform.history.record({
+      source,
+      event: type,
+      bridge: this.bridgeSerialNumber,
+      deviceId: this.id,
+      deviceName: this.name,
+      serialNumber: this.accessory.context.device.serialNumber,
+      before: {state: this.state.operationStartState as LockState},
+      after: error === undefined ? {state: OPERATION_TARGET_STATES[type]} : undefined,
+      error,
+    });
+  }
+
+  /**
+   * Records the battery level in the event history, at most once per sample interval.
+   * The Eve door history has no field for the battery level, the samples can be queried on the history route instead.
+   */
+  private recordBatterySample(batteryLevel: number) {
+    const now = Date.now();
+    if (this.lastBatterySample !== undefined && now - this.lastBatterySample < BATTERY_SAMPLE_INTERVAL) {
+      return;
+    }
+
+    this.lastBatterySample = now;
+    this.platform.history.record({
+      source: 'sample',
+      event: 'battery-level',
+      bridge: this.bridgeSerialNumber,
+      deviceId: this.id,
+      deviceName: this.name,
+      serialNumber: this.accessory.context.device.serialNumber,
+      after: {batteryLevel},
+    });
+  }
+
+  /**
+   * Sends the close command to the API.
+   * @param reason the reason of the command, used in the log messages
+   * @returns true if the lock is expected to move
+   */
+  private async lock(reason = 'via HomeKit'): Promise<boolean> {
+    if (this.state.state === 6) {
+      this.platform.log.debug(`[${this.name}] Lock is already closed.`);
+      return false;
+    }
+
+    this.platform.log.info(`[${this.name}] Close ${reason} requested.`);
+
+    try {
+      await this.apiClient.lockDevice(this.id);
+      return true;
+    } catch (e) {
+      throw this.handleApiError(e, `close ${reason}`);
+    }
+  }
+
+  /**
+   * Locks the lock on behalf of the plugin, so that the operation is not reported as a command from HomeKit.
+   * @param source the origin of the operation in the event history
+   * @param reason the reason of the command, used in the log messages
+   */
+  private async lockInternally(source: HistorySource, reason: string) {
+    this.assertConnected();
+    await this.runOperation('lock', () => this.lock(reason), source);
+    this.service.updateCharacteristic(this.platform.Characteristic.LockTargetState, this.platform.Characteristic.LockTargetState.SECURED);
+  }
+
+  /**
+   * Sends the open command to the API, or unlatches a lock that is already open.
+   * @returns true if the lock is expected to move
+   */
+  private async unlock(): Promise<boolean> {
+    if (this.state.state === 2) {
+      // The lock is already open, so an unlock request may only unlatch it
+      if (!this.configuration.unlatchFromUnlockedToUnlocked) {
+        this.platform.log.debug(`[${this.name}] Lock is already open, unlatch from unlocked to unlocked is disabled.`);
+        return false;
+      }
+
+      return this.unlatch();
+    }
+
+    const mode = this.getUnlockMode();
+    this.platform.log.info(`[${this.name}] Open via HomeKit requested.`);
+    this.platform.log.debug(`[${this.name}] Using unlock mode ${mode}.`);
+
+    try {
+      await this.apiClient.unlockDevice(this.id, mode);
+      return true;
+    } catch (e) {
+      throw this.handleApiError(e, 'open via HomeKit');
+    }
+  }
+
+  /**
+   * Sends the pull spring command to the API.
+   * @returns true if the lock is expected to move
+   */
+  private async unlatch(): Promise<boolean> {
+    this.platform.log.info(`[${this.name}] Unlatch via HomeKit requested.`);
+    this.state.isUnlatching = true;
+
+    try {
+      await this.apiClient.pullDevice(this.id);
+      return true;
+    } catch (e) {
+      this.state.isUnlatching = false;
+      throw this.handleApiError(e, 'unlatch via HomeKit');
+    }
+  }
+
+  /**
+   * Logs a failed API request and maps its error to the matching HAP status.
+   * @param e the error of the API client
+   * @param action the failed action, used in the log message
+   */
+  private handleApiError(e: unknown, action: string): HapStatusError {
+    const hap = this.platform.api.hap;
+    this.platform.log.warn(`[${this.name}] Failed to ${action}: ${e instanceof Error ? e.message : e}`);
+
+    let status = hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE;
+    if (e instanceof TedeeAuthenticationError) {
+      status = hap.HAPStatus.INSUFFICIENT_AUTHORIZATION;
+    } else if (e instanceof TedeeDeviceNotFoundError) {
+      status = hap.HAPStatus.RESOURCE_DOES_NOT_EXIST;
+    } else if (e instanceof TedeeBridgeBusyError) {
+      status = hap.HAPStatus.RESOURCE_BUSY;
+    } else if (e instanceof TedeeTimeoutError) {
+      status = hap.HAPStatus.OPERATION_TIMED_OUT;
+    }
+
+    // the message of the API error is kept for the event history
+    const error = new hap.HapStatusError(status);
+    error.message = e instanceof Error ? e.message : String(e);
+    return error;
+  }
+
+  /**
+   * Throws if unlock requests from HomeKit are disabled for this lock.
+   */
+  private assertUnlockAllowed() {
+    if (this.configuration.disableUnlock) {
+      this.platform.log.warn(`[${this.name}] Open via HomeKit is disabled.`);
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.INSUFFICIENT_PRIVILEGES);
+    }
+  }
+
+  /**
+   * Gets the unlock mode that matches the current state of the lock.
+   */
+  private getUnlockMode(): UnlockMode {
+    // A jammed or partially open lock has to be forced to move
+    if (this.state.isJammed || this.state.state === 3) {
+      return 2;
+    }
+
+    // When the latch is exposed separately, unlocking must not pull the spring
+    return this.configuration.unlatchLock ? 3 : 0;
+  }
+
+  /**
+   * Handle requests to set the "On" characteristic of the postponed lock
+   */
+  async handlePostponedLockSet(newValue: CharacteristicValue) {
+    if (!newValue) {
+      if (this.postponedLockTimeout) {
+        this.platform.log.info(`[${this.name}] Postponed lock cancelled via HomeKit.`);
+        this.cancelPostponedLock();
+      }
+      return;
+    }
+
+    this.assertConnected();
+
+    this.platform.log.info(`[${this.name}] Lock in ${this.configuration.postponedLockDelay} seconds requested via HomeKit.`);
+    this.schedulePostponedLock(Date.now() + this.configuration.postponedLockDelay * 1000);
+  }
+
+  /**
+   * Schedules the postponed lock and persists it in the accessory context, so it survives a restart.
+   * @param lockAt the timestamp at which the lock is locked
+   */
+  private schedulePostponedLock(lockAt: number) {
+    if (this.postponedLockTimeout) {
+      clearTimeout(this.postponedLockTimeout);
+    }
+
+    this.accessory.context.postponedLockAt = lockAt;
+    this.platform.api.updatePlatformAccessories([this.accessory]);
+
+    this.postponedLockTimeout = setTimeout(() => this.executePostponedLock(), Math.max(lockAt - Date.now(), 0));
+    this.updatePostponedLock();
+  }
+
+  private cancelPostponedLock() {
+    if (this.postponedLockTimeout) {
+      clearTimeout(this.postponedLockTimeout);
+      this.postponedLockTimeout = undefined;
+    }
+
+    delete this.accessory.context.postponedLockAt;
+    this.platform.api.updatePlatformAccessories([this.accessory]);
+
+    this.updatePostponedLock();
+  }
+
+  private async executePostponedLock() {
+    // the switch resets itself once the postponed lock is done
+    this.cancelPostponedLock();
+
+    if (this.state.state === 6) {
+      this.platform.log.debug(`[${this.name}] Postponed lock skipped, lock is already closed.`);
+      return;
+    }
+
+    try {
+      await this.lockInternally('postponed-lock', 'for the postponed lock');
+    } catch (e) {
+      this.platform.log.warn(`[${this.name}] Failed to execute postponed lock`);
+    }
+  }
+
+  handleAutoRelockPauseGet() {
+    return this.accessory.context.autoRelockPaused === true;
+  }
+
+  /**
+   * Handle requests to set the "On" characteristic of the auto re-lock pause switch
+   */
+  async handleAutoRelockPauseSet(newValue: CharacteristicValue) {
+    this.accessory.context.autoRelockPaused = !!newValue;
+    this.platform.api.updatePlatformAccessories([this.accessory]);
+
+    this.platform.log.info(`[${this.name}] Auto re-lock ${newValue ? 'paused' : 'resumed'} via HomeKit.`);
+    if (newValue) {
+      this.cancelAutoRelock();
+    }
+  }
+
+  /**
+   * Schedules the automatic re-lock when the lock was opened via HomeKit or within a configured time window.
+   */
+  private scheduleAutoRelock() {
+    if (!this.configuration.autoRelock || this.autoRelockTimeout) {
+      return;
+    }
+
+    if (this.handleAutoRelockPauseGet()) {
+      this.platform.log.debug(`[${this.name}] Auto re-lock is paused.`);
+      return;
     }
+
+    const now = new Date();
+    if (!this.state.isOpenedViaHomeKit && !this.autoRelockWindows.some(([from, until]) => isWithinTimeWindow(now, from, until))) {
+      this.platform.log.debug(`[${this.name}] Lock was not opened via HomeKit or within an auto re-lock window.`);
+      return;
+    }
+
+    this.platform.log.info(`[${this.name}] Lock is re-locked in ${this.configuration.autoRelockDelay} seconds.`);
+    this.autoRelockTimeout = setTimeout(() => this.executeAutoRelock(), this.configuration.autoRelockDelay * 1000);
   }
 
+  private cancelAutoRelock() {
+    if (this.autoRelockTimeout) {
+      clearTimeout(this.autoRelockTimeout);
+      this.autoRelockTimeout = undefined;
+      this.platform.log.debug(`[${this.name}] Auto re-lock cancelled.`);
+    }
+  }
+
+  private async executeAutoRelock() {
+    this.autoRelockTimeout = undefined;
+
+    if (this.state.state !== 2) {
+      return;
+    }
+
+    try {
+      await this.lockInternally('auto-relock', 'for the auto re-lock');
+    } catch (e) {
+      this.platform.log.warn(`[${this.name}] Failed to execute auto re-lock`);
+    }
+  }
 
   /**
    * Handle requests to get the current value of the "Status Low Battery" characteristic
@@ -116,11 +655,44 @@ export class LockAccessory {
   handleStatusLowBatteryGet() {
     this.platform.log.debug('Triggered GET StatusLowBattery');
 
-    return (this.state.batteryLevel < 10 && !this.state.isCharging) ?
+    return (this.state.isBatteryLow && !this.state.isCharging) ?
       this.platform.Characteristic.StatusLowBattery.BATTERY_LEVEL_LOW :
       this.platform.Characteristic.StatusLowBattery.BATTERY_LEVEL_NORMAL;
   }
 
+  handleSettingGet(setting: keyof DeviceSettings) {
+    const deviceSettings: DeviceSettings | undefined = this.accessory.context.device.deviceSettings;
+    return !!deviceSettings && deviceSettings[setting] === 1;
+  }
+
+  handlePostponedLockGet() {
+    return this.postponedLockTimeout !== undefined;
+  }
+
+  handleRemainingDurationGet() {
+    const lockAt = this.accessory.context.postponedLockAt;
+    if (typeof lockAt !== 'number') {
+      return 0;
+    }
+
+    return Math.min(Math.max(Math.ceil((lockAt - Date.now()) / 1000), 0), this.configuration.postponedLockDelay);
+  }
+
+  handleStatusFaultGet() {
+    return this.state.isConnected ?
+      this.platform.Characteristic.StatusFault.NO_FAULT :
+      this.platform.Characteristic.StatusFault.GENERAL_FAULT;
+  }
+
+  /**
+   * Handle requests to get the current value of the "Status Fault" characteristic of the battery, which also shows an unknown battery level
+   */
+  handleBatteryStatusFaultGet() {
+    return this.state.isConnected && !this.state.isBatteryLevelUnknown ?
+      this.platform.Characteristic.StatusFault.NO_FAULT :
+      this.platform.Characteristic.StatusFault.GENERAL_FAULT;
+  }
+
   handleStatusBatteryLevelGet() {
     return this.state.batteryLevel;
   }
@@ -181,6 +753,44 @@ export class LockAccessory {
     }
   }
 
+  handleLatchCurrentStateGet() {
+    switch (this.state.state) {
+      case 7: // Pull spring
+      case 8: // Pulling
+      case 255: // Unpulling
+        return this.platform.Characteristic.LockCurrentState.UNSECURED;
+      default:
+        return this.platform.Characteristic.LockCurrentState.SECURED;
+    }
+  }
+
+  handleLatchTargetStateGet() {
+    switch (this.state.state) {
+      case 7: // Pull spring
+      case 8: // Pulling
+        return this.platform.Characteristic.LockTargetState.UNSECURED;
+      case 255: // Unpulling
+        return this.platform.Characteristic.LockTargetState.SECURED;
+      default:
+        return this.state.isUnlatching ?
+          this.platform.Characteristic.LockTargetState.UNSECURED :
+          this.platform.Characteristic.LockTargetState.SECURED;
+    }
+  }
+
+  /**
+   * Gets the current state of the lock for the event history.
+   */
+  public getHistoryState(): HistoryState {
+    return {
+      state: this.state.state as LockState,
+      jammed: this.state.isJammed && this.state.state > 1 ? 1 : 0,
+      batteryLevel: this.state.batteryLevel,
+      isCharging: this.state.isCharging ? 1 : 0,
+      isConnected: this.state.isConnected ? 1 : 0,
+    };
+  }
+
   /**
    * Updates the device from the API.
    */
@@ -193,14 +803,14 @@ export class LockAccessory {
       this.platform.log.debug(`Syncing lock with ID ${this.id} from the API...`);
 
       // Gets sync information for the lock from the API
-      const lock = await this.platform.apiClient.getLockById(this.id);
+      const lock = await this.apiClient.getLockById(this.id);
 
       // Updates the locks
       this.update(lock);
 
       this.platform.log.debug(`Lock with ID ${this.id} synced from the API.`);
     } catch (e) {
-      this.platform.log.warn(`Failed to sync lock with ID ${this.id} from API.`);
+      this.platform.log.warn(`Failed to sync lock with ID ${this.id} from API: ${e instanceof Error ? e.message : e}`);
     }
   }
 
@@ -213,36 +823,153 @@ export class LockAccessory {
     this.platform.log.debug(`[${this.name}] Update received.`);
     this.accessory.context.device = lock;
 
+    this.updateConnection(lock.isConnected);
     this.updateState(lock.state, lock.jammed);
 
     // Updates the battery state
     this.updateBattery(lock.batteryLevel);
     this.updateCharging(lock.isCharging);
+
+    this.updateSettings();
+  }
+
+  public updateSettings() {
+    for (const settingSwitch of this.settingSwitches) {
+      settingSwitch.service.updateCharacteristic(this.platform.Characteristic.On, this.handleSettingGet(settingSwitch.setting));
+    }
+  }
+
+  private updatePostponedLock() {
+    if (this.postponedLock) {
+      this.postponedLock.updateCharacteristic(this.platform.Characteristic.On, this.handlePostponedLockGet());
+      this.postponedLock.updateCharacteristic(this.platform.Characteristic.RemainingDuration, this.handleRemainingDurationGet());
+    }
+  }
+
+  public updateConnection(isConnected: 0 | 1) {
+    if (this.state.isConnected !== (isConnected === 1)) {
+      this.platform.log.info(`[${this.name}] Lock ${isConnected ? 'connected to' : 'disconnected from'} the bridge.`);
+    }
+
+    this.state.isConnected = isConnected === 1;
+
+    // a pending operation cannot complete while the lock is disconnected
+    if (!this.state.isConnected) {
+      this.operations.cancel();
+      this.state.isUnlatching = false;
+    }
+
+    for (const service of [this.service, this.latch]) {
+      if (service) {
+        service.updateCharacteristic(this.platform.Characteristic.StatusFault, this.handleStatusFaultGet());
+      }
+    }
+    this.battery.updateCharacteristic(this.platform.Characteristic.StatusFault, this.handleBatteryStatusFaultGet());
+
+    if (!this.state.isConnected) {
+      // HomeKit shows the lock as not responding
+      const error = new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+      this.service.updateCharacteristic(this.platform.Characteristic.LockCurrentState, error);
+      if (this.latch) {
+        this.latch.updateCharacteristic(this.platform.Characteristic.LockCurrentState, error);
+      }
+    }
   }
 
   public updateBattery(batteryLevel: number) {
-    this.state.batteryLevel = batteryLevel;
+    this.setBatteryLevel(batteryLevel);
+    if (this.eveHistory && !this.state.isBatteryLevelUnknown) {
+      this.recordBatterySample(batteryLevel);
+    }
 
     this.battery.updateCharacteristic(this.platform.Characteristic.BatteryLevel, this.handleStatusBatteryLevelGet());
     this.battery.updateCharacteristic(this.platform.Characteristic.StatusLowBattery, this.handleStatusLowBatteryGet());
+    this.battery.updateCharacteristic(this.platform.Characteristic.StatusFault, this.handleBatteryStatusFaultGet());
+  }
+
+  /**
+   * Sets the battery level, an unknown level keeps the last known one.
+   * The battery is low below the threshold, and normal again once the level rose above the threshold by the hysteresis.
+   */
+  private setBatteryLevel(batteryLevel: number) {
+    this.state.isBatteryLevelUnknown = batteryLevel === UNKNOWN_BATTERY_LEVEL;
+    if (this.state.isBatteryLevelUnknown) {
+      this.platform.log.debug(`[${this.name}] Battery level is unknown, keeping ${this.state.batteryLevel}%.`);
+      return;
+    }
+
+    this.state.batteryLevel = batteryLevel;
+    this.accessory.context.batteryLevel = batteryLevel;
+
+    const threshold = this.configuration.lowBatteryThreshold;
+    if (!this.state.isBatteryLow && batteryLevel < threshold) {
+      this.state.isBatteryLow = true;
+      this.platform.log.warn(`[${this.name}] Battery level is low (${batteryLevel}%), please charge or replace the battery.`);
+    } else if (this.state.isBatteryLow && batteryLevel >= Math.min(threshold + LOW_BATTERY_HYSTERESIS, 100)) {
+      this.state.isBatteryLow = false;
+      this.platform.log.info(`[${this.name}] Battery level is back to ${batteryLevel}%.`);
+    }
   }
 
   public updateCharging(isCharging: 0 | 1) {
     this.state.isCharging = isCharging == 1;
 
     this.battery.updateCharacteristic(this.platform.Characteristic.ChargingState, this.handleStatusChargingStateGet());
+    this.battery.updateCharacteristic(this.platform.Characteristic.StatusLowBattery, this.handleStatusLowBatteryGet());
   }
 
   public updateState(state: LockState, jammed: 0 | 1) {
-    if (state == 0 || state == 2 || state == 3 || state == 6 || state == 9) {
-      this.state.isOperating = false;
+    // a pending postponed lock is obsolete once the lock is closed, and is cancelled when the lock is opened manually
+    if (this.postponedLockTimeout && state !== this.state.state && (state === 6 || state === 4 || state === 8)) {
+      this.platform.log.info(`[${this.name}] Postponed lock cancelled, the lock was ${state === 6 ? 'closed' : 'opened'} in the meantime.`);
+      this.cancelPostponedLock();
+    }
+
+    // the automatic re-lock runs while the lock stays open, and only openings after a HomeKit command count as HomeKit openings
+    if (state !== this.state.state) {
+      if (state === 2) {
+        this.scheduleAutoRelock();
+      } else {
+        this.cancelAutoRelock();
+      }
+
+      if (state === 6) {
+        this.state.isOpenedViaHomeKit = false;
+      }
     }
 
     this.state.state = state;
+    this.eveHistory?.recordState(state);
 
     this.state.isJammed = jammed == 1 || state == 0 || state == 1;
 
+    if (this.operations.isBusy) {
+      // the operation in flight completes with a final state, unless it is the stale state from before the operation
+      if (!(state === 0 || state === 2 || state === 3 || state === 6 || state === 9)) {
+        this.state.hasMoved = true;
+      } else if (this.state.hasMoved || state !== this.state.operationStartState) {
+        this.operations.complete();
+      }
+    }
+
+    // the latch is returning (or the operation ended), so the latch target goes back to secured
+    if (state === 255 || !this.operations.isBusy) {
+      this.state.isUnlatching = false;
+    }
+
     this.service.updateCharacteristic(this.platform.Characteristic.LockCurrentState, this.handleLockCurrentStateGet());
     this.service.updateCharacteristic(this.platform.Characteristic.LockTargetState, this.handleLockTargetStateGet());
+
+    if (this.latch) {
+      this.latch.updateCharacteristic(this.platform.Characteristic.LockCurrentState, this.handleLatchCurrentStateGet());
+      this.latch.updateCharacteristic(this.platform.Characteristic.LockTargetState, this.handleLatchTargetStateGet());
+    }
+
+    this.updateSensors();
+  }
+
+  private updateSensors() {
+    const isUnlocked = this.handleLockCurrentStateGet() === this.platform.Characteristic.LockCurrentState.UNSECURED;
+    this.sensors.update(isUnlocked, this.state.isJammed);
   }
 }
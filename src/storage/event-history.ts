@@ -0,0 +1,157 @@
+import fs from 'fs';
+import {Logger} from 'homebridge';
+import {HistoryEntry, HistoryState} from './history-entry';
+
+/**
+ * The number of rotated files that are kept in addition to the current file.
+ */
+const ROTATED_FILES = 3;
+
+/**
+ * Represents the filter of a history query.
+ */
+export interface HistoryQuery {
+  deviceId?: number;
+
+  /**
+   * Gets or sets the time in milliseconds since the epoch from which on entries are returned.
+   */
+  since?: number;
+}
+
+/**
+ * Compares two states of a lock.
+ * @returns the values before and after of the properties that changed, or undefined if nothing changed
+ */
+export function diffHistoryState(before: HistoryState, after: HistoryState): [HistoryState, HistoryState] | undefined {
+  const changedBefore: HistoryState = {};
+  const changedAfter: HistoryState = {};
+  for (const key of Object.keys(after) as (keyof HistoryState)[]) {
+    if (after[key] !== undefined && before[key] !== after[key]) {
+      changedBefore[key] = before[key] as never;
+      changedAfter[key] = after[key] as never;
+    }
+  }
+
+  return Object.keys(changedAfter).length > 0 ? [changedBefore, changedAfter] : undefined;
+}
+
+/**
+ * Gets the values of the state for the properties that are set in the other state.
+ */
+export function pickHistoryState(state: HistoryState, keys: HistoryState): HistoryState {
+  const picked: HistoryState = {};
+  for (const key of Object.keys(keys) as (keyof HistoryState)[]) {
+    picked[key] = state[key] as never;
+  }
+
+  return picked;
+}
+
+/**
+ * Records the events of the locks in an append-only journal with one JSON entry per line.
+ * When the journal exceeds its maximum size, it is rotated and the oldest file is deleted.
+ */
+export class EventHistory {
+  private size = 0;
+
+  /**
+   * @param filePath the path of the journal, the rotated files get the suffixes .1 (newest) to .3 (oldest)
+   * @param maxSize the maximum size of a file in bytes, 0 disables the history
+   */
+  constructor(
+    private readonly filePath: string,
+    private readonly maxSize: number,
+    private readonly log: Logger,
+  ) {
+    try {
+      this.size = fs.statSync(this.filePath).size;
+    } catch (e) {
+      this.size = 0;
+    }
+  }
+
+  public get isEnabled(): boolean {
+    return this.maxSize > 0;
+  }
+
+  /**
+   * Appends an entry to the journal.
+   */
+  public record(entry: Omit<HistoryEntry, 'timestamp'>) {
+    if (!this.isEnabled) {
+      return;
+    }
+
+    const line = JSON.stringify({timestamp: new Date().toISOString(), ...entry}) + '\n';
+    try {
+      if (this.size > 0 && this.size + Buffer.byteLength(line) > this.maxSize) {
+        this.rotate();
+      }
+
+      fs.appendFileSync(this.filePath, line);
+      this.size += Buffer.byteLength(line);
+    } catch (e) {
+      this.log.warn(`Failed to write event history to ${this.filePath}`);
+      this.log.debug(JSON.stringify(e));
+    }
+  }
+
+  /**
+   * Reads the entries that match the query, oldest first.
+   */
+  public query(query: HistoryQuery): HistoryEntry[] {
+    const entries: HistoryEntry[] = [];
+    for (const filePath of [...this.getRotatedPaths().reverse(), this.filePath]) {
+      let content: string;
+      try {
+        content = fs.readFileSync(filePath, 'utf8');
+      } catch (e) {
+        continue;
+      }
+
+      for (const line of content.split('\n')) {
+        const entry = this.parse(line);
+        if (entry &&
+          (query.deviceId === undefined || entry.deviceId === query.deviceId) &&
+          (query.since === undefined || Date.parse(entry.timestamp) >= query.since)) {
+          entries.push(entry);
+        }
+      }
+    }
+
+    return entries;
+  }
+
+  private parse(line: string): HistoryEntry | undefined {
+    if (!line) {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(line);
+    } catch (e) {
+      // a line may be incomplete if Homebridge stopped while writing it
+      return undefined;
+    }
+  }
+
+  private getRotatedPaths(): string[] {
+    return Array.from({length: ROTATED_FILES}, (_, i) => `${this.filePath}.${i + 1}`);
+  }
+
+  /**
+   * Shifts the rotated files by one, the oldest one is overwritten, and moves the current file to the first one.
+   */
+  private rotate() {
+    const paths = [this.filePath, ...this.getRotatedPaths()];
+    for (let i = paths.length - 1; i > 0; i--) {
+      if (fs.existsSync(paths[i - 1])) {
+        fs.renameSync(paths[i - 1], paths[i]);
+      }
+    }
+
+    this.size = 0;
+    this.log.debug(`Rotated event history ${this.filePath}`);
+  }
+}
@@ -0,0 +1,56 @@
+import {LockState} from '../clients/models/lock-state';
+
+/**
+ * The origin of a history entry: a command from HomeKit, the postponed lock or the automatic re-lock of the plugin,
+ * a webhook event of the bridge, a change detected by polling, or a periodic sample of the plugin.
+ */
+export type HistorySource = 'homekit' | 'postponed-lock' | 'auto-relock' | 'webhook' | 'poll' | 'sample';
+
+/**
+ * Represents the state of a lock, or the parts of it that an event changed.
+ */
+export interface HistoryState {
+  state?: LockState;
+  jammed?: 0 | 1;
+  batteryLevel?: number;
+  isCharging?: 0 | 1;
+  isConnected?: 0 | 1;
+}
+
+/**
+ * Represents an entry of the event history.
+ */
+export interface HistoryEntry {
+  /**
+   * Gets or sets the time of the entry as ISO 8601 string.
+   */
+  timestamp: string;
+
+  source: HistorySource;
+
+  /**
+   * Gets or sets the command (lock, unlock, unlatch), the webhook event type, or the type of the polled change.
+   */
+  event: string;
+
+  /**
+   * Gets or sets the serial number of the bridge.
+   */
+  bridge?: string;
+
+  deviceId?: number;
+  deviceName?: string;
+
+  /**
+   * Gets or sets the serial number of the device.
+   */
+  serialNumber?: string;
+
+  before?: HistoryState;
+  after?: HistoryState;
+
+  /**
+   * Gets or sets the reason why a command failed.
+   */
+  error?: string;
+}
@@ -0,0 +1,53 @@
+import fs from 'fs';
+import {Logger} from 'homebridge';
+import {StorageData} from './storage-data';
+
+/**
+ * Persists the plugin data in a plugin-owned file in the Homebridge storage path.
+ */
+export class PluginStorage {
+  private data: StorageData = {};
+
+  constructor(
+    private readonly filePath: string,
+    private readonly log: Logger,
+  ) {
+    this.load();
+  }
+
+  public get<K extends keyof StorageData>(key: K): StorageData[K] {
+    return this.data[key];
+  }
+
+  public set<K extends keyof StorageData>(key: K, value: StorageData[K]) {
+    this.data[key] = value;
+    this.save();
+  }
+
+  private load() {
+    try {
+      this.data = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.log.warn(`Failed to read plugin storage from ${this.filePath}`);
+        this.log.debug(JSON.stringify(e));
+      }
+      this.data = {};
+    }
+  }
+
+  /**
+   * Writes the data to a temporary file that replaces the storage file afterwards,
+   * so the storage file is never left half-written.
+   */
+  private save() {
+    const tempPath = `${this.filePath}.tmp`;
+    try {
+      fs.writeFileSync(tempPath, JSON.stringify(this.data, null, 2));
+      fs.renameSync(tempPath, this.filePath);
+    } catch (e) {
+      this.log.warn(`Failed to write plugin storage to ${this.filePath}`);
+      this.log.debug(JSON.stringify(e));
+    }
+  }
+}
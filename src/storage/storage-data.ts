@@ -0,0 +1,44 @@
+/**
+ * Represents the data the plugin persists in its own storage file.
+ */
+export interface StorageData {
+  /**
+   * Gets or sets the secret that authenticates the webhook requests of the bridge.
+   */
+  webhookSecret?: string;
+
+  /**
+   * Gets or sets the last known addresses of the bridges, keyed by the serial number of the bridge.
+   */
+  bridgeAddresses?: Record<string, string>;
+
+  /**
+   * Gets or sets the statistics of the Eve history, keyed by the serial number of the lock.
+   */
+  eveHistory?: Record<string, EveStatistics>;
+}
+
+/**
+ * Represents the statistics that the Eve app shows for a lock.
+ */
+export interface EveStatistics {
+  /**
+   * Gets or sets the number of openings since the last reset.
+   */
+  timesOpened: number;
+
+  /**
+   * Gets or sets the time of the last reset that the Eve app sent.
+   */
+  resetTotal: number;
+
+  /**
+   * Gets or sets the time in seconds since the epoch at which the lock was last opened or closed.
+   */
+  lastActivation: number;
+
+  /**
+   * Gets or sets the last recorded status, 1 if open and 0 if closed.
+   */
+  lastStatus?: number;
+}
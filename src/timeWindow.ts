@@ -0,0 +1,24 @@
+/**
+ * Parses a time of day of the format HH:MM.
+ * @returns the minutes since midnight, or undefined if the time is invalid
+ */
+export function parseTime(time: string): number | undefined {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time);
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+    return undefined;
+  }
+
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/**
+ * Determines whether the time of the date is within a time window. A window may span midnight.
+ * @param from the start of the window in minutes since midnight
+ * @param until the end of the window in minutes since midnight, exclusive
+ */
+export function isWithinTimeWindow(date: Date, from: number, until: number): boolean {
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  return from <= until ?
+    minutes >= from && minutes < until :
+    minutes >= from || minutes < until;
+}
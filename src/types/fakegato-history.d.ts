@@ -0,0 +1,42 @@
+declare module 'fakegato-history' {
+  import {API, Logger, PlatformAccessory} from 'homebridge';
+
+  function fakegato(api: API): typeof fakegato.FakeGatoHistoryService;
+
+  namespace fakegato {
+    /**
+     * Represents an entry of the history, the properties depend on the type of the history.
+     */
+    interface FakeGatoHistoryEntry {
+      time: number;
+      status?: number;
+    }
+
+    interface FakeGatoHistoryOptions {
+      storage?: 'fs' | 'googleDrive';
+      path?: string;
+      filename?: string;
+      size?: number;
+      minutes?: number;
+      disableTimer?: boolean;
+      disableRepeatLastData?: boolean;
+      log?: Logger;
+    }
+
+    class FakeGatoHistoryService {
+      static UUID: string;
+
+      constructor(type: 'weather' | 'energy' | 'room' | 'room2' | 'door' | 'motion' | 'switch' | 'thermo' | 'aqua' | 'custom',
+        accessory: PlatformAccessory, options?: FakeGatoHistoryOptions);
+
+      addEntry(entry: FakeGatoHistoryEntry): void;
+
+      /**
+       * Gets the time in seconds since the epoch at which the history started.
+       */
+      getInitialTime(): number;
+    }
+  }
+
+  export = fakegato;
+}